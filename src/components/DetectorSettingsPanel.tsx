@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { HandDetectorOptions } from '@/lib/mediapipe';
+import { SmoothingLevel, SmoothingOptions } from '@/lib/landmarkSmoothing';
+import { loadDetectorOptions, resetDetectorOptions, saveDetectorOptions } from '@/lib/detectorSettings';
+import { RotateCcw, SlidersHorizontal } from 'lucide-react';
+
+type ConfidenceKey = 'minHandDetectionConfidence' | 'minHandPresenceConfidence' | 'minTrackingConfidence';
+
+const CONFIDENCE_FIELDS: Array<{ key: ConfidenceKey; label: string }> = [
+  { key: 'minHandDetectionConfidence', label: 'Confianza de detección' },
+  { key: 'minHandPresenceConfidence', label: 'Confianza de presencia' },
+  { key: 'minTrackingConfidence', label: 'Confianza de seguimiento' },
+];
+
+const SMOOTHING_FIELDS: Array<{ key: keyof SmoothingOptions; label: string }> = [
+  { key: 'overlay', label: 'Suavizado del dibujo en vivo' },
+  { key: 'keyframes', label: 'Suavizado de los keyframes' },
+];
+
+const BODY_FIELDS: Array<{ key: 'pose' | 'face'; label: string; description: string }> = [
+  { key: 'pose', label: 'Capturar pose', description: 'Hombros y brazos para comparar la posición de las manos respecto del cuerpo' },
+  { key: 'face', label: 'Capturar rostro', description: 'Puntos clave de la cara (nariz, ojos, boca) como referencia adicional' },
+];
+
+const SMOOTHING_LABELS: Record<SmoothingLevel, string> = {
+  off: 'Sin suavizado',
+  light: 'Ligero',
+  strong: 'Fuerte',
+};
+
+/**
+ * Campos de las opciones del detector; cada cambio se guarda y llega a los detectores activos
+ */
+const DetectorSettingsForm: React.FC = () => {
+  const [options, setOptions] = useState<HandDetectorOptions>(loadDetectorOptions);
+  const [modelPath, setModelPath] = useState(options.modelPath);
+
+  const updateOptions = (changes: Partial<HandDetectorOptions>) => {
+    const next = { ...options, ...changes };
+    setOptions(next);
+    saveDetectorOptions(next);
+  };
+
+  const resetOptions = () => {
+    const defaults = resetDetectorOptions();
+    setOptions(defaults);
+    setModelPath(defaults.modelPath);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Manos a detectar</Label>
+          <Select value={String(options.numHands)} onValueChange={(value) => updateOptions({ numHands: Number(value) })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="1">1 mano</SelectItem>
+              <SelectItem value="2">2 manos</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Modo de ejecución</Label>
+          <Select
+            value={options.runningMode}
+            onValueChange={(value) => updateOptions({ runningMode: value as HandDetectorOptions['runningMode'] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="VIDEO">Video (con seguimiento entre frames)</SelectItem>
+              <SelectItem value="IMAGE">Imagen (cada frame por separado)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {CONFIDENCE_FIELDS.map(field => (
+          <div key={field.key} className="grid grid-cols-[12rem_1fr_2.5rem] items-center gap-4">
+            <span className="text-sm">{field.label}</span>
+            <Slider
+              min={0.1}
+              max={0.9}
+              step={0.05}
+              value={[options[field.key]]}
+              onValueChange={([value]) => setOptions(prev => ({ ...prev, [field.key]: value }))}
+              onValueCommit={([value]) => updateOptions({ [field.key]: value })}
+              aria-label={field.label}
+            />
+            <span className="text-sm font-mono text-right">{options[field.key].toFixed(2)}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        {SMOOTHING_FIELDS.map(field => (
+          <div key={field.key} className="space-y-2">
+            <Label>{field.label}</Label>
+            <Select
+              value={options.smoothing[field.key]}
+              onValueChange={(value) => updateOptions({
+                smoothing: { ...options.smoothing, [field.key]: value as SmoothingLevel }
+              })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SMOOTHING_LABELS) as SmoothingLevel[]).map(level => (
+                  <SelectItem key={level} value={level}>{SMOOTHING_LABELS[level]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        {BODY_FIELDS.map(field => (
+          <div key={field.key} className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor={`detector-${field.key}`}>{field.label}</Label>
+              <p className="text-sm text-muted-foreground">{field.description}</p>
+            </div>
+            <Switch
+              id={`detector-${field.key}`}
+              checked={options[field.key]}
+              onCheckedChange={(checked) => updateOptions({ [field.key]: checked })}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="detector-model-path">Ruta del modelo</Label>
+        <div className="flex gap-2">
+          <Input
+            id="detector-model-path"
+            value={modelPath}
+            onChange={(e) => setModelPath(e.target.value)}
+          />
+          <Button
+            variant="outline"
+            onClick={() => updateOptions({ modelPath: modelPath.trim() })}
+            disabled={!modelPath.trim() || modelPath.trim() === options.modelPath}
+          >
+            Aplicar
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button variant="ghost" onClick={resetOptions}>
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Restablecer valores predeterminados
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Opciones del detector de manos guardadas en este equipo
+ */
+export const DetectorSettingsPanel: React.FC = () => (
+  <Card className="p-6 space-y-6">
+    <div className="text-center space-y-2">
+      <h2 className="text-2xl font-bold bg-gradient-tech bg-clip-text text-transparent">
+        Detector de manos
+      </h2>
+      <p className="text-muted-foreground">
+        Se guardan solo en este equipo. Para ajustarlas con la cámara encendida usa el botón junto a la cámara en Grabar o Detectar
+      </p>
+    </div>
+
+    <DetectorSettingsForm />
+  </Card>
+);
+
+/**
+ * Opciones del detector en un panel lateral, para ajustarlas junto a la cámara sin apagarla
+ */
+export const DetectorSettingsSheet: React.FC = () => (
+  <Sheet>
+    <SheetTrigger asChild>
+      <Button variant="outline" size="icon" aria-label="Ajustes del detector">
+        <SlidersHorizontal className="w-4 h-4" />
+      </Button>
+    </SheetTrigger>
+    <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+      <SheetHeader className="mb-6">
+        <SheetTitle>Detector de manos</SheetTitle>
+        <SheetDescription>Los cambios se aplican sin apagar la cámara</SheetDescription>
+      </SheetHeader>
+      <DetectorSettingsForm />
+    </SheetContent>
+  </Sheet>
+);
@@ -0,0 +1,219 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { ScatterChart, Scatter, XAxis, YAxis, ZAxis, CartesianGrid } from 'recharts';
+import { signDatabase } from '@/lib/indexeddb';
+import { EvaluationProgress, EvaluationReport, NO_MATCH_LABEL, evaluateLibrary, evaluationToCSV, evaluationToJSON } from '@/lib/evaluation';
+import { getMatcher } from '@/lib/signMatchers';
+import { comparisonOptionsFromSettings } from '@/lib/signComparison';
+import { downloadBlob } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { FlaskConical, FileJson, FileSpreadsheet, Square } from 'lucide-react';
+
+const chartConfig = {
+  count: { label: 'Tomas', color: 'hsl(var(--primary))' },
+  predicted: { label: 'Predicha' },
+  actual: { label: 'Real' },
+} satisfies ChartConfig;
+
+const formatPercent = (value: number | null): string =>
+  value === null ? '—' : `${(value * 100).toFixed(1)}%`;
+
+export const EvaluationPanel: React.FC = () => {
+  const [report, setReport] = useState<EvaluationReport | null>(null);
+  const [progress, setProgress] = useState<EvaluationProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const { toast } = useToast();
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const runEvaluation = async () => {
+    try {
+      await signDatabase.initialize();
+      const [signs, settings] = await Promise.all([
+        signDatabase.getSignCandidates(true),
+        signDatabase.getLibrarySettings()
+      ]);
+
+      if (!signs.some(sign => sign.samples.length > 1)) {
+        toast({
+          title: "Biblioteca insuficiente",
+          description: "Se necesita al menos una seña con dos o más tomas para evaluar",
+        });
+        return;
+      }
+
+      abortRef.current = new AbortController();
+      setProgress({ done: 0, total: 0 });
+
+      const result = await evaluateLibrary(
+        signs,
+        comparisonOptionsFromSettings(settings),
+        setProgress,
+        abortRef.current.signal
+      );
+      setReport(result);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      console.error('Error evaluando la biblioteca:', error);
+      toast({
+        title: "Error",
+        description: "No se pudo completar la evaluación",
+        variant: "destructive",
+      });
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const exportReport = (format: 'json' | 'csv') => {
+    if (!report) return;
+    const stamp = report.evaluatedAt.toISOString().slice(0, 10);
+
+    if (format === 'json') {
+      downloadBlob(new Blob([evaluationToJSON(report)], { type: 'application/json' }), `evaluacion-${stamp}.json`);
+    } else {
+      downloadBlob(new Blob([evaluationToCSV(report)], { type: 'text/csv' }), `evaluacion-${stamp}.csv`);
+    }
+  };
+
+  // Todas las celdas (incluidas las vacías) para que ambos ejes conserven el orden de la biblioteca
+  const confusionData = report
+    ? report.perSign.flatMap(actual =>
+        [...report.perSign.map(metrics => ({ id: metrics.signId as string | null, name: metrics.signName })), { id: null, name: NO_MATCH_LABEL }]
+          .map(predicted => ({
+            actual: actual.signName,
+            predicted: predicted.name,
+            count: report.confusion.find(cell =>
+              cell.actualSignId === actual.signId && cell.predictedSignId === predicted.id
+            )?.count ?? 0
+          }))
+      )
+    : [];
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div className="text-center space-y-2">
+        <h2 className="text-2xl font-bold bg-gradient-tech bg-clip-text text-transparent">
+          Evaluación de la biblioteca
+        </h2>
+        <p className="text-muted-foreground">
+          Cada toma se reconoce contra el resto de la biblioteca (leave-one-out) con los ajustes actuales
+        </p>
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-2">
+        {progress ? (
+          <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+            <Square className="w-4 h-4 mr-2" />
+            Cancelar
+          </Button>
+        ) : (
+          <Button onClick={runEvaluation}>
+            <FlaskConical className="w-4 h-4 mr-2" />
+            Ejecutar evaluación
+          </Button>
+        )}
+        <Button variant="outline" onClick={() => exportReport('json')} disabled={!report}>
+          <FileJson className="w-4 h-4 mr-2" />
+          JSON
+        </Button>
+        <Button variant="outline" onClick={() => exportReport('csv')} disabled={!report}>
+          <FileSpreadsheet className="w-4 h-4 mr-2" />
+          CSV
+        </Button>
+      </div>
+
+      {progress && (
+        <div className="space-y-1">
+          <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} />
+          <p className="text-center text-sm text-muted-foreground">
+            {progress.done} / {progress.total} tomas
+          </p>
+        </div>
+      )}
+
+      {report && (
+        <>
+          <div className="flex flex-wrap justify-center gap-2">
+            <Badge variant="outline">{getMatcher(report.matcherId).name}</Badge>
+            <Badge variant="outline">
+              {report.evaluableQueries} de {report.totalQueries} tomas evaluables
+            </Badge>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div className="p-4 rounded-lg border">
+              <div className="text-2xl font-bold">{formatPercent(report.top1Accuracy)}</div>
+              <div className="text-sm text-muted-foreground">Exactitud top-1</div>
+            </div>
+            <div className="p-4 rounded-lg border">
+              <div className="text-2xl font-bold">{formatPercent(report.top3Accuracy)}</div>
+              <div className="text-sm text-muted-foreground">Exactitud top-3</div>
+            </div>
+            <div className="p-4 rounded-lg border">
+              <div className="text-2xl font-bold">{formatPercent(report.falseAcceptRate)}</div>
+              <div className="text-sm text-muted-foreground">Falsa aceptación</div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-lg font-semibold">Matriz de confusión</h3>
+            <ChartContainer config={chartConfig} className="w-full" style={{ height: Math.max(240, report.perSign.length * 40 + 100) }}>
+              <ScatterChart margin={{ top: 10, right: 10, bottom: 40, left: 10 }}>
+                <CartesianGrid />
+                <XAxis
+                  type="category"
+                  dataKey="predicted"
+                  name="Predicha"
+                  allowDuplicatedCategory={false}
+                  angle={-30}
+                  textAnchor="end"
+                  interval={0}
+                />
+                <YAxis
+                  type="category"
+                  dataKey="actual"
+                  name="Real"
+                  allowDuplicatedCategory={false}
+                  width={100}
+                  interval={0}
+                />
+                <ZAxis type="number" dataKey="count" name="Tomas" range={[0, 600]} />
+                <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+                <Scatter data={confusionData} fill="var(--color-count)" />
+              </ScatterChart>
+            </ChartContainer>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Seña</TableHead>
+                <TableHead className="text-right">Tomas</TableHead>
+                <TableHead className="text-right">Precisión</TableHead>
+                <TableHead className="text-right">Recall</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.perSign.map(metrics => (
+                <TableRow key={metrics.signId}>
+                  <TableCell className="font-medium">{metrics.signName}</TableCell>
+                  <TableCell className="text-right">{metrics.support}</TableCell>
+                  <TableCell className="text-right font-mono">{formatPercent(metrics.precision)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatPercent(metrics.recall)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </Card>
+  );
+};
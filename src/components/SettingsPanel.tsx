@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { DEFAULT_LIBRARY_SETTINGS, LibrarySettings, signDatabase } from '@/lib/indexeddb';
+import { SampleAggregation } from '@/lib/signComparison';
+import { listMatchers } from '@/lib/signMatchers';
+import { FeatureWeights } from '@/lib/signFeatures';
+import { DEFAULT_DOMINANT_HAND, DominantHand, dominantHandLabel } from '@/lib/handedness';
+import { useToast } from '@/hooks/use-toast';
+import { FlaskConical } from 'lucide-react';
+
+const FEATURE_GROUPS: Array<{ key: keyof FeatureWeights; label: string }> = [
+  { key: 'shape', label: 'Forma de las manos' },
+  { key: 'trajectory', label: 'Trayectoria de las muñecas' },
+  { key: 'velocity', label: 'Velocidad' },
+  { key: 'acceleration', label: 'Aceleración' },
+];
+
+export const SettingsPanel: React.FC = () => {
+  const [settings, setSettings] = useState<LibrarySettings>(DEFAULT_LIBRARY_SETTINGS);
+  const [signers, setSigners] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const { toast } = useToast();
+
+  const matchers = listMatchers();
+  const selectedMatcher = matchers.find(matcher => matcher.id === settings.matcherId);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        await signDatabase.initialize();
+        const [saved, signs] = await Promise.all([
+          signDatabase.getLibrarySettings(),
+          signDatabase.getSignSummaries()
+        ]);
+        setSettings(saved);
+
+        // Personas con perfil guardado o con tomas en la biblioteca
+        const names = new Set(Object.keys(saved.signerHands));
+        signs.forEach(sign => sign.samples.forEach(sample => sample.signer && names.add(sample.signer)));
+        setSigners(Array.from(names).sort((a, b) => a.localeCompare(b, 'es')));
+      } catch (error) {
+        console.error('Error cargando ajustes:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadSettings();
+  }, []);
+
+  const updateSettings = async (changes: Partial<LibrarySettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+
+    try {
+      await signDatabase.saveLibrarySettings(next);
+      toast({
+        title: "Ajustes guardados",
+        description: "Se aplicarán en la próxima comparación",
+      });
+    } catch (error) {
+      console.error('Error guardando ajustes:', error);
+      toast({
+        title: "Error",
+        description: "No se pudieron guardar los ajustes",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateSignerHand = async (signer: string, dominantHand: DominantHand) => {
+    try {
+      const updated = await signDatabase.setSignerDominantHand(signer, dominantHand);
+      setSettings(prev => ({ ...prev, signerHands: { ...prev.signerHands, [signer]: dominantHand } }));
+      toast({
+        title: "Mano dominante actualizada",
+        description: `${signer}: ${dominantHandLabel(dominantHand).toLowerCase()} (${updated} toma${updated !== 1 ? 's' : ''})`,
+      });
+    } catch (error) {
+      console.error('Error guardando mano dominante:', error);
+      toast({
+        title: "Error",
+        description: "No se pudo guardar la mano dominante",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handSelect = (value: DominantHand, onChange: (value: DominantHand) => void) => (
+    <Select value={value} onValueChange={(next) => onChange(next as DominantHand)}>
+      <SelectTrigger className="w-40">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="right">{dominantHandLabel('right')}</SelectItem>
+        <SelectItem value="left">{dominantHandLabel('left')}</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+
+  if (loading) {
+    return (
+      <Card className="p-6">
+        <div className="text-center">Cargando ajustes...</div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div className="text-center space-y-2">
+        <h2 className="text-2xl font-bold bg-gradient-tech bg-clip-text text-transparent">
+          Ajustes
+        </h2>
+        <p className="text-muted-foreground">
+          Configuración del reconocimiento para esta biblioteca de señas
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Algoritmo de comparación</Label>
+        <Select value={settings.matcherId} onValueChange={(matcherId) => updateSettings({ matcherId })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {matchers.map(matcher => (
+              <SelectItem key={matcher.id} value={matcher.id}>
+                {matcher.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {selectedMatcher && (
+          <p className="text-sm text-muted-foreground">{selectedMatcher.description}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Combinación de tomas</Label>
+        <Select
+          value={settings.sampleAggregation}
+          onValueChange={(value) => updateSettings({ sampleAggregation: value as SampleAggregation })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="best">Mejor toma</SelectItem>
+            <SelectItem value="knn">Promedio de las tomas más cercanas (k-NN)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <Label>Peso de cada grupo de características</Label>
+          <p className="text-sm text-muted-foreground">
+            Un peso de 0 excluye el grupo de la comparación
+          </p>
+        </div>
+        {FEATURE_GROUPS.map(group => (
+          <div key={group.key} className="grid grid-cols-[10rem_1fr_2.5rem] items-center gap-4">
+            <span className="text-sm">{group.label}</span>
+            <Slider
+              min={0}
+              max={3}
+              step={0.25}
+              value={[settings.featureWeights[group.key]]}
+              onValueChange={([value]) => setSettings(prev => ({
+                ...prev,
+                featureWeights: { ...prev.featureWeights, [group.key]: value }
+              }))}
+              onValueCommit={([value]) => updateSettings({
+                featureWeights: { ...settings.featureWeights, [group.key]: value }
+              })}
+              aria-label={group.label}
+            />
+            <span className="text-sm font-mono text-right">{settings.featureWeights[group.key].toFixed(2)}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <Label>Mano dominante</Label>
+          <p className="text-sm text-muted-foreground">
+            Las tomas de personas zurdas se reflejan para compararlas con las de personas diestras
+          </p>
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <span className="text-sm">Quien usa el detector</span>
+          {handSelect(settings.dominantHand, (dominantHand) => updateSettings({ dominantHand }))}
+        </div>
+        {signers.map(signer => (
+          <div key={signer} className="flex items-center justify-between gap-4">
+            <span className="text-sm truncate">{signer}</span>
+            {handSelect(settings.signerHands[signer] ?? DEFAULT_DOMINANT_HAND, (hand) => updateSignerHand(signer, hand))}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-4 border-t pt-4">
+        <p className="text-sm text-muted-foreground">
+          Mide la exactitud de estos ajustes con las tomas grabadas en la biblioteca
+        </p>
+        <Button variant="outline" asChild>
+          <Link to="/evaluation">
+            <FlaskConical className="w-4 h-4 mr-2" />
+            Evaluar
+          </Link>
+        </Button>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,385 @@
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SignMetadata, SignRecord, signDatabase } from '@/lib/indexeddb';
+import { computeKeyframeStats } from '@/lib/keyframeStats';
+import { drawHandLandmarks, findKeyframeIndexAt, sampleVideoStart } from '@/lib/landmarkOverlay';
+import { dominantHandLabel } from '@/lib/handedness';
+import { normalizeTags } from '@/lib/signSearch';
+import { useToast } from '@/hooks/use-toast';
+import { Pause, Play, Save } from 'lucide-react';
+
+interface MetadataForm {
+  name: string;
+  aliases: string; // Separados por comas
+  description: string;
+  category: string;
+  tags: string; // Separadas por comas
+  region: string;
+  notes: string;
+}
+
+const toForm = (sign: SignRecord): MetadataForm => ({
+  name: sign.name,
+  aliases: (sign.aliases ?? []).join(', '),
+  description: sign.description ?? '',
+  category: sign.category ?? '',
+  tags: (sign.tags ?? []).join(', '),
+  region: sign.region ?? '',
+  notes: sign.notes ?? '',
+});
+
+const optional = (value: string): string | undefined => value.trim() || undefined;
+
+const fromForm = (form: MetadataForm): SignMetadata => ({
+  name: form.name.trim(),
+  aliases: Array.from(new Set(form.aliases.split(',').map(alias => alias.trim()).filter(Boolean))),
+  description: optional(form.description),
+  category: optional(form.category),
+  tags: normalizeTags(form.tags.split(',')),
+  region: optional(form.region),
+  notes: optional(form.notes),
+});
+
+const formatPercent = (value: number, total: number): string =>
+  total > 0 ? `${Math.round((value / total) * 100)}%` : '—';
+
+interface SignDetailPanelProps {
+  sign: SignRecord;
+  onSignUpdated: (sign: SignRecord) => void;
+}
+
+/**
+ * Video de una toma con sus landmarks, recorrido cuadro a cuadro, estadísticas y edición de datos
+ */
+export const SignDetailPanel: React.FC<SignDetailPanelProps> = ({ sign, onSignUpdated }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const animationFrameRef = useRef<number | null>(null);
+
+  const [sampleId, setSampleId] = useState(sign.samples[0]?.id ?? '');
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [form, setForm] = useState<MetadataForm>(() => toForm(sign));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { toast } = useToast();
+
+  const sample = sign.samples.find(candidate => candidate.id === sampleId) ?? sign.samples[0];
+  const keyframes = useMemo(() => sample?.keyframes ?? [], [sample]);
+  const stats = useMemo(() => computeKeyframeStats(keyframes), [keyframes]);
+  const startTime = sample ? sampleVideoStart(sample) : 0;
+  const currentSampleId = sample?.id;
+
+  /**
+   * Dibuja el cuadro actual del video y el keyframe más cercano
+   */
+  const render = useCallback(() => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!video || !canvas || !ctx) return;
+
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const index = findKeyframeIndexAt(keyframes, video.currentTime * 1000, startTime);
+    if (index >= 0) {
+      drawHandLandmarks(ctx, keyframes[index].hands, canvas.width, canvas.height);
+      setFrameIndex(index);
+    }
+  }, [keyframes, startTime]);
+
+  // Los eventos del video usan siempre el último render sin tener que recargar el video
+  const renderRef = useRef(render);
+  useEffect(() => {
+    renderRef.current = render;
+  }, [render]);
+
+  const stopLoop = () => {
+    if (animationFrameRef.current !== null) {
+      cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = null;
+    }
+  };
+
+  // Depende solo del id: guardar los datos de la seña reemplaza el objeto de la toma,
+  // pero no debe recargar el video ni reiniciar la reproducción
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !currentSampleId) return;
+
+    let url: string | null = null;
+    let cancelled = false;
+
+    video.onloadeddata = () => {
+      if (canvasRef.current) {
+        canvasRef.current.width = video.videoWidth;
+        canvasRef.current.height = video.videoHeight;
+      }
+      renderRef.current();
+    };
+    video.onseeked = () => renderRef.current();
+    video.onended = () => {
+      stopLoop();
+      setIsPlaying(false);
+    };
+
+    // El video se guarda aparte de los keyframes y se lee solo al abrir la toma
+    signDatabase.getSampleVideo(currentSampleId)
+      .then(blob => {
+        if (cancelled) return;
+        if (!blob) {
+          console.warn(`La toma ${currentSampleId} no tiene video guardado`);
+          return;
+        }
+        url = URL.createObjectURL(blob);
+        video.src = url;
+      })
+      .catch(error => console.error('Error cargando el video de la toma:', error));
+
+    return () => {
+      cancelled = true;
+      stopLoop();
+      video.pause();
+      video.onloadeddata = null;
+      video.onseeked = null;
+      video.onended = null;
+      if (url) URL.revokeObjectURL(url);
+      setIsPlaying(false);
+    };
+  }, [currentSampleId]);
+
+  const togglePlayback = async () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (isPlaying) {
+      video.pause();
+      stopLoop();
+      setIsPlaying(false);
+      return;
+    }
+
+    const loop = () => {
+      render();
+      animationFrameRef.current = requestAnimationFrame(loop);
+    };
+    try {
+      await video.play();
+      setIsPlaying(true);
+      loop();
+    } catch (error) {
+      console.error('Error reproduciendo la toma:', error);
+    }
+  };
+
+  const scrubTo = (index: number) => {
+    const video = videoRef.current;
+    if (!video || !keyframes[index]) return;
+
+    video.pause();
+    stopLoop();
+    setIsPlaying(false);
+    setFrameIndex(index);
+    video.currentTime = (keyframes[index].timestamp - startTime) / 1000;
+  };
+
+  const updateForm = (changes: Partial<MetadataForm>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const saveMetadata = async () => {
+    const metadata = fromForm(form);
+    if (!metadata.name) {
+      toast({
+        title: "Error",
+        description: "La seña necesita un nombre",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const updated = await signDatabase.updateSign(sign.id, metadata);
+      setForm(toForm(updated));
+      onSignUpdated(updated);
+      toast({
+        title: "Seña actualizada",
+        description: `"${updated.name}" guardada`,
+      });
+    } catch (error) {
+      console.error('Error actualizando seña:', error);
+      toast({
+        title: "Error",
+        description: "No se pudieron guardar los cambios",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[3fr_2fr]">
+      <Card className="p-6 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <h2 className="text-2xl font-bold bg-gradient-tech bg-clip-text text-transparent">{sign.name}</h2>
+          {sign.samples.length > 1 && (
+            <Select value={sample?.id} onValueChange={setSampleId}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sign.samples.map((candidate, index) => (
+                  <SelectItem key={candidate.id} value={candidate.id}>Toma {index + 1}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {sample ? (
+          <>
+            <video ref={videoRef} className="hidden" muted playsInline />
+            <canvas
+              ref={canvasRef}
+              className="w-full rounded-lg border-2 border-accent shadow-glow-tech max-h-96 bg-black"
+            />
+
+            <div className="flex items-center gap-4">
+              <Button size="icon" variant="outline" onClick={togglePlayback} disabled={keyframes.length === 0}>
+                {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              </Button>
+              <Slider
+                min={0}
+                max={Math.max(0, keyframes.length - 1)}
+                step={1}
+                value={[frameIndex]}
+                onValueChange={([value]) => scrubTo(value)}
+                disabled={keyframes.length === 0}
+                aria-label="Keyframe"
+              />
+              <span className="text-sm font-mono whitespace-nowrap">
+                {keyframes.length > 0 ? frameIndex + 1 : 0} / {keyframes.length}
+              </span>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {sample.signer && <Badge variant="outline">{sample.signer}</Badge>}
+              <Badge variant="outline">{dominantHandLabel(sample.dominantHand ?? 'right')}</Badge>
+              <Badge variant="outline">{sample.capturedAt.toLocaleDateString()}</Badge>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+              <div className="p-3 rounded-lg border">
+                <div className="text-lg font-bold">{stats.frames}</div>
+                <div className="text-xs text-muted-foreground">Keyframes</div>
+              </div>
+              <div className="p-3 rounded-lg border">
+                <div className="text-lg font-bold">{(stats.durationMs / 1000).toFixed(1)}s</div>
+                <div className="text-xs text-muted-foreground">Duración</div>
+              </div>
+              <div className="p-3 rounded-lg border">
+                <div className="text-lg font-bold">{stats.framesPerSecond.toFixed(1)}</div>
+                <div className="text-xs text-muted-foreground">Keyframes/s</div>
+              </div>
+              <div className="p-3 rounded-lg border">
+                <div className="text-lg font-bold">{formatPercent(stats.framesWithTwoHands, stats.frames)}</div>
+                <div className="text-xs text-muted-foreground">Con dos manos</div>
+              </div>
+              <div className="p-3 rounded-lg border">
+                <div className="text-lg font-bold">
+                  {stats.averageHandednessScore === null ? '—' : `${Math.round(stats.averageHandednessScore * 100)}%`}
+                </div>
+                <div className="text-xs text-muted-foreground">Confianza media</div>
+              </div>
+              <div className="p-3 rounded-lg border">
+                <div className="text-lg font-bold">{formatPercent(stats.framesWithWorldLandmarks, stats.frames)}</div>
+                <div className="text-xs text-muted-foreground">Landmarks 3D</div>
+              </div>
+              <div className="p-3 rounded-lg border">
+                <div className="text-lg font-bold">{formatPercent(stats.framesWithPose, stats.frames)}</div>
+                <div className="text-xs text-muted-foreground">Con pose</div>
+              </div>
+              <div className="p-3 rounded-lg border">
+                <div className="text-lg font-bold">{formatPercent(stats.framesWithFace, stats.frames)}</div>
+                <div className="text-xs text-muted-foreground">Con rostro</div>
+              </div>
+            </div>
+          </>
+        ) : (
+          <p className="text-center text-muted-foreground">Esta seña no tiene tomas</p>
+        )}
+      </Card>
+
+      <Card className="p-6 space-y-4">
+        <h3 className="text-lg font-semibold">Datos de la seña</h3>
+
+        <div className="space-y-2">
+          <Label htmlFor="sign-name">Nombre</Label>
+          <Input id="sign-name" value={form.name} onChange={(e) => updateForm({ name: e.target.value })} />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="sign-aliases">Alias</Label>
+          <Input
+            id="sign-aliases"
+            placeholder="Separados por comas (ej: calentura, temperatura)"
+            value={form.aliases}
+            onChange={(e) => updateForm({ aliases: e.target.value })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="sign-description">Descripción</Label>
+          <Textarea
+            id="sign-description"
+            rows={3}
+            value={form.description}
+            onChange={(e) => updateForm({ description: e.target.value })}
+          />
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="sign-category">Categoría</Label>
+            <Input id="sign-category" value={form.category} onChange={(e) => updateForm({ category: e.target.value })} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sign-region">Región o variante</Label>
+            <Input id="sign-region" value={form.region} onChange={(e) => updateForm({ region: e.target.value })} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="sign-tags">Etiquetas</Label>
+          <Input
+            id="sign-tags"
+            placeholder="Separadas por comas (ej: salud, saludos)"
+            value={form.tags}
+            onChange={(e) => updateForm({ tags: e.target.value })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="sign-notes">Notas</Label>
+          <Textarea
+            id="sign-notes"
+            rows={3}
+            value={form.notes}
+            onChange={(e) => updateForm({ notes: e.target.value })}
+          />
+        </div>
+
+        <Button onClick={saveMetadata} disabled={isSaving || !form.name.trim()} className="w-full">
+          <Save className="w-4 h-4 mr-2" />
+          Guardar cambios
+        </Button>
+      </Card>
+    </div>
+  );
+};
@@ -2,20 +2,84 @@ import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { HandDetector, FrameData } from '@/lib/mediapipe';
-import { signDatabase } from '@/lib/indexeddb';
-import { signComparisonService, ComparisonResult } from '@/lib/signComparison';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { HandDetector, HandDetection, HandResultsCallback, FrameData, MediaPipeAssetError, DetectorStats } from '@/lib/mediapipe';
+import { TranscriptPanel } from '@/components/TranscriptPanel';
+import { SubtitleEditor } from '@/components/SubtitleEditor';
+import { DetectorSettingsSheet } from '@/components/DetectorSettingsPanel';
+import { TranscriptWord, signDatabase } from '@/lib/indexeddb';
+import { signComparisonService, comparisonOptionsFromSettings, ComparisonOptions, ComparisonResult, SignCandidate } from '@/lib/signComparison';
+import { SignSpotter, SignSegment } from '@/lib/signSpotter';
+import { SubtitleCue } from '@/lib/subtitles';
 import { voiceAlertService } from '@/lib/voiceAlert';
+import { loadDetectorOptions, subscribeDetectorOptions } from '@/lib/detectorSettings';
 import { useToast } from '@/hooks/use-toast';
-import { Camera, Search, Timer, CheckCircle, AlertCircle, Volume2 } from 'lucide-react';
+import { Camera, Search, Timer, CheckCircle, AlertCircle, Volume2, Gauge, Radio, Square, Plus } from 'lucide-react';
 import { HandLandmarkerResult } from '@mediapipe/tasks-vision';
 
+interface SpottedSign {
+  id: string;
+  signId: string;
+  signName: string;
+  similarity: number;
+  startTime: number; // ms desde el inicio de la sesión continua
+  endTime: number;
+}
+
+// Coincidencias ofrecidas para corregir cada palabra de la transcripción
+const TRANSCRIPT_ALTERNATIVES = 5;
+
+/**
+ * Crea una palabra de transcripción a partir del resultado elegido y sus alternativas
+ */
+const toTranscriptWord = (chosen: ComparisonResult, results: ComparisonResult[]): TranscriptWord => ({
+  id: crypto.randomUUID(),
+  text: chosen.signName,
+  signId: chosen.signId,
+  similarity: chosen.similarity,
+  alternatives: results.slice(0, TRANSCRIPT_ALTERNATIVES).map(result => ({
+    signId: result.signId,
+    signName: result.signName,
+    similarity: result.similarity
+  })),
+  recognizedAt: new Date()
+});
+
+/**
+ * Lee las opciones de comparación elegidas en los ajustes
+ */
+const loadComparisonOptions = async (): Promise<ComparisonOptions> => {
+  return comparisonOptionsFromSettings(await signDatabase.getLibrarySettings());
+};
+
+/**
+ * Formatea milisegundos de sesión como m:ss.s
+ */
+const formatSessionTime = (ms: number): string => {
+  const totalSeconds = Math.max(0, ms) / 1000;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds % 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${seconds}`;
+};
+
 export const SignDetector: React.FC = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const handDetectorRef = useRef<HandDetector | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const onResultsRef = useRef<(results: HandLandmarkerResult) => void>(() => {});
+  const onResultsRef = useRef<HandResultsCallback>(() => {});
+  const spotterRef = useRef<SignSpotter | null>(null);
+  const isSpottingRef = useRef(false);
+  const candidatesRef = useRef<SignCandidate[]>([]);
+  const comparisonOptionsRef = useRef<ComparisonOptions>({});
+  const sessionStartRef = useRef(0);
+  const segmentQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const sessionRecorderRef = useRef<MediaRecorder | null>(null);
+  // Los segmentos que terminan de analizarse tras detener la sesión también se subtitulan
+  const isRecordingSessionRef = useRef(false);
+  const sessionCuesRef = useRef<SubtitleCue[]>([]);
   
   const [isDetecting, setIsDetecting] = useState(false);
   const [preparationTime, setPreparationTime] = useState(0);
@@ -23,10 +87,20 @@ export const SignDetector: React.FC = () => {
   const [isInitialized, setIsInitialized] = useState(false);
   const [isCameraOn, setIsCameraOn] = useState(false);
   const [handsDetected, setHandsDetected] = useState(0);
+  const [assetError, setAssetError] = useState<string | null>(null);
+  const [detectorStats, setDetectorStats] = useState<DetectorStats | null>(null);
   const [recordingTime, setRecordingTime] = useState(0);
   const [isComparing, setIsComparing] = useState(false);
   const [comparisonResults, setComparisonResults] = useState<ComparisonResult[]>([]);
   const [bestMatch, setBestMatch] = useState<ComparisonResult | null>(null);
+  const [continuousMode, setContinuousMode] = useState(false);
+  const [isSpotting, setIsSpotting] = useState(false);
+  const [pendingSegments, setPendingSegments] = useState(0);
+  const [spottedSigns, setSpottedSigns] = useState<SpottedSign[]>([]);
+  const [transcriptWords, setTranscriptWords] = useState<TranscriptWord[]>([]);
+  const [recordSession, setRecordSession] = useState(false);
+  const [sessionVideo, setSessionVideo] = useState<Blob | null>(null);
+  const [sessionCues, setSessionCues] = useState<SubtitleCue[]>([]);
   
   const { toast } = useToast();
 
@@ -44,8 +118,17 @@ export const SignDetector: React.FC = () => {
       handDetectorRef.current.stop();
       handDetectorRef.current = null;
     }
+    if (sessionRecorderRef.current?.state === 'recording') {
+      sessionRecorderRef.current.stop();
+    }
+    sessionRecorderRef.current = null;
+    spotterRef.current?.reset();
+    spotterRef.current = null;
+    isSpottingRef.current = false;
+    setIsSpotting(false);
     setIsInitialized(false);
     setIsCameraOn(false);
+    setDetectorStats(null);
   }, []);
 
   const initializeCamera = useCallback(async () => {
@@ -83,12 +166,24 @@ export const SignDetector: React.FC = () => {
         console.log('▶️ Video reproduciendo en detector');
         
         console.log('🤖 Inicializando detector de manos en detector...');
-        handDetectorRef.current = new HandDetector();
-        await handDetectorRef.current.initialize(videoRef.current, (res: HandLandmarkerResult) => onResultsRef.current(res));
+        handDetectorRef.current = new HandDetector(loadDetectorOptions());
+        await handDetectorRef.current.initialize(
+          videoRef.current,
+          (res, detection) => onResultsRef.current(res, detection),
+          (detectorError) => {
+            stopCamera();
+            toast({
+              title: "Error del detector",
+              description: `${detectorError.message}. Vuelve a iniciar la cámara.`,
+              variant: "destructive",
+            });
+          }
+        );
         console.log('✅ Detector de manos inicializado en detector');
         
         setIsInitialized(true);
         setIsCameraOn(true);
+        setAssetError(null);
         
         toast({
           title: "Detector iniciado",
@@ -98,6 +193,15 @@ export const SignDetector: React.FC = () => {
     } catch (error) {
       console.error('❌ Error accessing camera in detector:', error);
       stopCamera();
+      if (error instanceof MediaPipeAssetError) {
+        setAssetError(error.message);
+        toast({
+          title: "Archivos de MediaPipe no disponibles",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Error de cámara",
         description: "Cámara en uso por otra aplicación. Cierra otras pestañas que usen la cámara.",
@@ -106,7 +210,7 @@ export const SignDetector: React.FC = () => {
     }
   }, [toast, stopCamera]);
 
-  const onHandResults = useCallback((results: HandLandmarkerResult) => {
+  const onHandResults = useCallback((results: HandLandmarkerResult, detection: HandDetection) => {
     if (canvasRef.current && videoRef.current) {
       const canvas = canvasRef.current;
       const ctx = canvas.getContext('2d', { 
@@ -122,6 +226,11 @@ export const SignDetector: React.FC = () => {
           ctx.drawImage(videoRef.current, 0, 0, canvas.width, canvas.height);
         }
       
+        const stats = handDetectorRef.current?.getStats();
+        if (stats && stats.processedFrames % 15 === 0) {
+          setDetectorStats(stats);
+        }
+      
         if (results.landmarks) {
           setHandsDetected(results.landmarks.length);
           
@@ -236,14 +345,16 @@ export const SignDetector: React.FC = () => {
           setHandsDetected(0);
         }
         
+        // MODO CONTINUO: todos los frames (con o sin manos) alimentan el segmentador
+        if (isSpottingRef.current && spotterRef.current) {
+          spotterRef.current.pushFrame(HandDetector.extractFrameData(detection, performance.now()));
+        }
+        
         // CAPTURA ESTANDARIZADA DE KEYFRAMES - IDENTICA A SIGNRECORDER
         if (isDetecting) {
           // Solo capturar keyframes cuando hay manos detectadas
           if (results.landmarks && results.landmarks.length > 0) {
-            const frameData: FrameData = {
-              timestamp: performance.now(),
-              hands: HandDetector.extractHandData(results)
-            };
+            const frameData: FrameData = HandDetector.extractFrameData(detection, performance.now());
             
             // Validar que los datos están completos - MISMA VALIDACION
             if (frameData.hands.length > 0 && frameData.hands[0].landmarks.length === 21) {
@@ -264,6 +375,88 @@ export const SignDetector: React.FC = () => {
     onResultsRef.current = onHandResults;
   }, [onHandResults]);
 
+  // Recuperar la última sesión grabada (sigue disponible al volver a esta pestaña)
+  useEffect(() => {
+    const loadSession = async () => {
+      try {
+        await signDatabase.initialize();
+        const session = await signDatabase.getSessionRecording();
+        if (session) {
+          setSessionVideo(session.video);
+          setSessionCues(session.cues);
+        }
+      } catch (error) {
+        console.error('Error cargando la sesión grabada:', error);
+      }
+    };
+    loadSession();
+  }, []);
+
+  // Guardar los subtítulos de la sesión, tanto los editados como los que llegan al terminar
+  useEffect(() => {
+    sessionCuesRef.current = sessionCues;
+    if (!sessionVideo) return;
+
+    signDatabase.updateSessionCues(sessionCues).catch(error => {
+      console.error('Error guardando los subtítulos de la sesión:', error);
+    });
+  }, [sessionVideo, sessionCues]);
+
+  // Aplicar en caliente los cambios de opciones del detector hechos en Ajustes
+  useEffect(() => subscribeDetectorOptions(options => {
+    handDetectorRef.current?.setOptions(options).catch(error => {
+      console.error('Error reconfigurando el detector:', error);
+      toast({
+        title: "Error del detector",
+        description: error instanceof MediaPipeAssetError ? error.message : "No se pudieron aplicar las nuevas opciones",
+        variant: "destructive",
+      });
+    });
+  }), [toast]);
+
+  /**
+   * Carga las señas guardadas con keyframes válidos en el formato del comparador
+   */
+  const loadCandidates = useCallback(async (): Promise<SignCandidate[] | null> => {
+    await signDatabase.initialize();
+    const savedSigns = await signDatabase.getSignCandidates();
+    
+    console.log('Señas guardadas encontradas:', savedSigns.length);
+    
+    if (savedSigns.length === 0) {
+      toast({
+        title: "No hay señas para comparar",
+        description: "Graba algunas señas primero para poder compararlas",
+      });
+      return null;
+    }
+
+    // Validar señas guardadas y mostrar detalles
+    const validSigns = savedSigns.filter(sign =>
+      sign.samples && sign.samples.some(sample => sample.keyframeCount > 0)
+    );
+    console.log('Señas con keyframes:', validSigns.length);
+    
+    validSigns.forEach((sign, index) => {
+      console.log(`Seña ${index + 1} - "${sign.name}":`, {
+        tomas: sign.samples.length,
+        keyframesPorToma: sign.samples.map(sample => sample.keyframeCount),
+        caracteristicasPrecalculadas: sign.samples.map(sample => sample.features !== undefined)
+      });
+    });
+
+    if (validSigns.length === 0) {
+      toast({
+        title: "No hay señas válidas",
+        description: "Las señas guardadas no tienen datos de keyframes válidos",
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    return validSigns;
+  }, [toast]);
+
   const compareWithDatabase = useCallback(async (detectedFrames: FrameData[]) => {
     try {
       setIsComparing(true);
@@ -291,72 +484,25 @@ export const SignDetector: React.FC = () => {
         return;
       }
 
-      await signDatabase.initialize();
-      const savedSigns = await signDatabase.getAllSigns();
-      
-      console.log('Señas guardadas encontradas:', savedSigns.length);
-      
-      if (savedSigns.length === 0) {
-        toast({
-          title: "No hay señas para comparar",
-          description: "Graba algunas señas primero para poder compararlas",
-        });
-        return;
-      }
-
-      // Validar señas guardadas y mostrar detalles
-      const validSigns = savedSigns.filter(sign => sign.keyframes && sign.keyframes.length > 0);
-      console.log('Señas con keyframes:', validSigns.length);
-      
-      validSigns.forEach((sign, index) => {
-        const validKeyframes = sign.keyframes.filter(f => f.hands && f.hands.length > 0);
-        console.log(`Seña ${index + 1} - "${sign.name}":`, {
-          totalKeyframes: sign.keyframes.length,
-          keyframesConManos: validKeyframes.length,
-          muestraKeyframe: validKeyframes[0] ? {
-            timestamp: validKeyframes[0].timestamp,
-            hands: validKeyframes[0].hands.map(h => ({
-              handedness: h.handedness,
-              landmarks: h.landmarks ? h.landmarks.length : 'sin landmarks'
-            }))
-          } : 'sin keyframes válidos'
-        });
-      });
-
-      if (validSigns.length === 0) {
-        toast({
-          title: "No hay señas válidas",
-          description: "Las señas guardadas no tienen datos de keyframes válidos",
-          variant: "destructive",
-        });
-        return;
-      }
+      const candidates = await loadCandidates();
+      if (!candidates) return;
 
       console.log('Iniciando comparación con servicio...');
       const results = await signComparisonService.compareWithDatabase(
         validDetectedFrames,
-        validSigns.map(sign => ({
-          id: sign.id,
-          name: sign.name,
-          keyframes: sign.keyframes
-        }))
+        candidates,
+        await loadComparisonOptions()
       );
 
       console.log('Resultados de comparación:', results);
       setComparisonResults(results);
 
-      const match = await signComparisonService.findBestMatch(
-        validDetectedFrames,
-        validSigns.map(sign => ({
-          id: sign.id,
-          name: sign.name,
-          keyframes: sign.keyframes
-        }))
-      );
+      const match = results.length > 0 && results[0].isMatch ? results[0] : null;
 
       if (match) {
         console.log('✓ Coincidencia encontrada:', match);
         setBestMatch(match);
+        setTranscriptWords(prev => [...prev, toTranscriptWord(match, results)]);
         
         try {
           await voiceAlertService.playSignRecognitionAlert(match.signName);
@@ -382,7 +528,7 @@ export const SignDetector: React.FC = () => {
         
         toast({
           title: "No hay coincidencias",
-          description: "La seña no coincide con ninguna guardada (< 85%)",
+          description: "La seña no alcanzó el umbral de ninguna seña guardada",
           variant: "destructive",
         });
       }
@@ -397,7 +543,127 @@ export const SignDetector: React.FC = () => {
     } finally {
       setIsComparing(false);
     }
-  }, [toast]);
+  }, [toast, loadCandidates]);
+
+  /**
+   * Compara un segmento detectado automáticamente y lo agrega a la lista si coincide
+   */
+  const recognizeSegment = useCallback(async (segment: SignSegment) => {
+    try {
+      const results = await signComparisonService.compareWithDatabase(
+        segment.frames,
+        candidatesRef.current,
+        comparisonOptionsRef.current
+      );
+      const match = results.length > 0 && results[0].isMatch ? results[0] : null;
+
+      console.log('Segmento analizado:', {
+        frames: segment.frames.length,
+        motivo: segment.reason,
+        mejor: results[0]?.signName,
+        similitud: results[0]?.similarity
+      });
+
+      if (match) {
+        setSpottedSigns(prev => [...prev, {
+          id: crypto.randomUUID(),
+          signId: match.signId,
+          signName: match.signName,
+          similarity: match.similarity,
+          startTime: segment.startTime - sessionStartRef.current,
+          endTime: segment.endTime - sessionStartRef.current
+        }]);
+        setTranscriptWords(prev => [...prev, toTranscriptWord(match, results)]);
+        if (isRecordingSessionRef.current) {
+          setSessionCues(prev => [...prev, {
+            id: crypto.randomUUID(),
+            startTime: segment.startTime - sessionStartRef.current,
+            endTime: segment.endTime - sessionStartRef.current,
+            text: match.signName
+          }]);
+        }
+        voiceAlertService.playSignRecognitionAlert(match.signName).catch(voiceError => {
+          console.error('Error en alerta de voz:', voiceError);
+        });
+      }
+    } catch (error) {
+      console.error('Error comparando segmento:', error);
+    } finally {
+      setPendingSegments(prev => prev - 1);
+    }
+  }, []);
+
+  const handleSegment = useCallback((segment: SignSegment) => {
+    // Los segmentos se comparan en orden, uno a la vez
+    setPendingSegments(prev => prev + 1);
+    segmentQueueRef.current = segmentQueueRef.current.then(() => recognizeSegment(segment));
+  }, [recognizeSegment]);
+
+  /**
+   * Graba el video de la sesión continua para subtitularlo al terminar
+   */
+  const startSessionRecording = useCallback((stream: MediaStream) => {
+    const chunks: Blob[] = [];
+    const mimeType = MediaRecorder.isTypeSupported('video/webm;codecs=vp9') ? 'video/webm;codecs=vp9' : 'video/webm';
+    const recorder = new MediaRecorder(stream, { mimeType });
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      const video = new Blob(chunks, { type: 'video/webm' });
+      setSessionVideo(video);
+      // Se guarda para no perderla si la pestaña se desmonta al detener la cámara
+      signDatabase.saveSessionRecording(video, sessionCuesRef.current).catch(error => {
+        console.error('Error guardando la sesión grabada:', error);
+      });
+    };
+
+    recorder.start();
+    sessionRecorderRef.current = recorder;
+  }, []);
+
+  const startSpotting = useCallback(async () => {
+    if (!isInitialized) return;
+
+    const candidates = await loadCandidates();
+    if (!candidates) return;
+
+    candidatesRef.current = candidates;
+    comparisonOptionsRef.current = await loadComparisonOptions();
+    spotterRef.current = new SignSpotter(handleSegment);
+
+    isRecordingSessionRef.current = recordSession && streamRef.current !== null;
+    setSessionVideo(null);
+    setSessionCues([]);
+    signDatabase.deleteSessionRecording().catch(error => {
+      console.error('Error descartando la sesión anterior:', error);
+    });
+    if (isRecordingSessionRef.current) {
+      startSessionRecording(streamRef.current!);
+    }
+
+    sessionStartRef.current = performance.now();
+    isSpottingRef.current = true;
+    setSpottedSigns([]);
+    setIsSpotting(true);
+
+    toast({
+      title: "Modo continuo activo",
+      description: "Realiza las señas una tras otra; se reconocerán automáticamente",
+    });
+  }, [isInitialized, loadCandidates, handleSegment, recordSession, startSessionRecording, toast]);
+
+  const stopSpotting = useCallback(() => {
+    isSpottingRef.current = false;
+    spotterRef.current?.flush();
+    spotterRef.current = null;
+    if (sessionRecorderRef.current?.state === 'recording') {
+      sessionRecorderRef.current.stop();
+    }
+    sessionRecorderRef.current = null;
+    setIsSpotting(false);
+  }, []);
 
   const startDetection = useCallback(async () => {
     if (!isInitialized) return;
@@ -524,6 +790,17 @@ export const SignDetector: React.FC = () => {
             {isInitialized ? "Cámara activa" : "Iniciando..."}
           </Badge>
           
+          {detectorStats && (
+            <Badge
+              variant="outline"
+              className="bg-background/80"
+              title={`Inferencia: ${detectorStats.inferenceMs.toFixed(1)} ms · Frames descartados: ${detectorStats.droppedFrames}`}
+            >
+              <Gauge className="w-3 h-3 mr-1" />
+              {Math.round(detectorStats.averageLatencyMs)} ms
+            </Badge>
+          )}
+          
           {handsDetected > 0 && (
             <Badge variant="outline" className="bg-accent text-accent-foreground">
               {handsDetected} mano{handsDetected > 1 ? 's' : ''} detectada{handsDetected > 1 ? 's' : ''}
@@ -531,6 +808,15 @@ export const SignDetector: React.FC = () => {
           )}
         </div>
 
+        {isSpotting && (
+          <div className="absolute top-4 right-4">
+            <Badge className="bg-accent text-accent-foreground animate-pulse">
+              <Radio className="w-3 h-3 mr-1" />
+              CONTINUO
+            </Badge>
+          </div>
+        )}
+        
         {isDetecting && (
           <div className="absolute top-4 right-4">
             <Badge className="bg-accent text-accent-foreground animate-pulse">
@@ -574,17 +860,120 @@ export const SignDetector: React.FC = () => {
         )}
       </div>
 
+      {assetError && (
+        <Alert variant="destructive">
+          <AlertTitle>Detector no disponible</AlertTitle>
+          <AlertDescription>{assetError}</AlertDescription>
+        </Alert>
+      )}
+
       <div className="space-y-4">
-        <Button
-          onClick={toggleCamera}
-          variant={isCameraOn ? "destructive" : "default"}
-          className="w-full"
-        >
-          <Camera className="w-4 h-4 mr-2" />
-          {isCameraOn ? "Apagar Cámara" : "Prender Cámara"}
-        </Button>
-
-        {isCameraOn && (
+        <div className="flex gap-3">
+          <Button
+            onClick={toggleCamera}
+            variant={isCameraOn ? "destructive" : "default"}
+            className="flex-1"
+          >
+            <Camera className="w-4 h-4 mr-2" />
+            {isCameraOn ? "Apagar Cámara" : "Prender Cámara"}
+          </Button>
+          <DetectorSettingsSheet />
+        </div>
+
+        <div className="flex items-center justify-center gap-2">
+          <Switch
+            id="continuous-mode"
+            checked={continuousMode}
+            onCheckedChange={setContinuousMode}
+            disabled={isSpotting || isDetecting || preparationTime > 0}
+          />
+          <Label htmlFor="continuous-mode">Modo continuo (sin botones entre señas)</Label>
+        </div>
+
+        {continuousMode && (
+          <div className="flex items-center justify-center gap-2">
+            <Switch
+              id="record-session"
+              checked={recordSession}
+              onCheckedChange={setRecordSession}
+              disabled={isSpotting}
+            />
+            <Label htmlFor="record-session">Grabar la sesión para exportar subtítulos</Label>
+          </div>
+        )}
+
+        {isCameraOn && continuousMode && (
+          <Button
+            onClick={isSpotting ? stopSpotting : startSpotting}
+            disabled={!isInitialized}
+            variant={isSpotting ? "destructive" : "default"}
+            className="w-full"
+          >
+            {isSpotting ? (
+              <>
+                <Square className="w-4 h-4 mr-2" />
+                Detener modo continuo
+              </>
+            ) : (
+              <>
+                <Radio className="w-4 h-4 mr-2" />
+                Iniciar modo continuo
+              </>
+            )}
+          </Button>
+        )}
+
+        {continuousMode && (isSpotting || spottedSigns.length > 0) && (
+          <div className="border-t pt-4 space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold">Señas reconocidas</h3>
+              {pendingSegments > 0 && (
+                <Badge className="bg-warning text-warning-foreground animate-pulse">
+                  <Search className="w-3 h-3 mr-1" />
+                  Analizando {pendingSegments}
+                </Badge>
+              )}
+            </div>
+            {spottedSigns.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Esperando señas...
+              </p>
+            ) : (
+              <div className="space-y-1 max-h-64 overflow-y-auto">
+                {spottedSigns.map(spotted => (
+                  <div
+                    key={spotted.id}
+                    className="flex justify-between items-center p-2 rounded-lg border bg-success/5 border-success/20"
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs font-mono text-muted-foreground">
+                        {formatSessionTime(spotted.startTime)}–{formatSessionTime(spotted.endTime)}
+                      </span>
+                      <span className="font-medium">{spotted.signName}</span>
+                    </div>
+                    <span className="text-sm font-mono text-success">
+                      {(spotted.similarity * 100).toFixed(1)}%
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {sessionVideo && (
+          <div className="border-t pt-4 space-y-2">
+            <h3 className="text-lg font-semibold">Subtítulos de la sesión</h3>
+            <SubtitleEditor
+              video={sessionVideo}
+              cues={sessionCues}
+              onCuesChange={setSessionCues}
+              fileName={`sesion-${new Date().toISOString().slice(0, 10)}`}
+            />
+          </div>
+        )}
+
+        {isCameraOn && !continuousMode && (
           <Button
             onClick={startDetection}
             disabled={!isInitialized || isDetecting || preparationTime > 0}
@@ -630,7 +1019,7 @@ export const SignDetector: React.FC = () => {
                   </div>
                   <p className="text-lg font-bold">{bestMatch.signName}</p>
                   <p className="text-sm text-muted-foreground">
-                    Similitud: {(bestMatch.similarity * 100).toFixed(1)}% (≥ 85% requerido)
+                    Similitud: {(bestMatch.similarity * 100).toFixed(1)}% (≥ {(bestMatch.threshold * 100).toFixed(1)}% requerido)
                   </p>
                 </div>
               ) : (
@@ -640,7 +1029,8 @@ export const SignDetector: React.FC = () => {
                     <span className="font-semibold text-destructive">Sin Coincidencias</span>
                   </div>
                   <p className="text-sm text-muted-foreground">
-                    Ninguna seña alcanzó el 85% de similitud requerido
+                    Ninguna seña alcanzó su umbral de similitud
+                    {comparisonResults[0] && ` (mejor: ${comparisonResults[0].signName}, ${(comparisonResults[0].threshold * 100).toFixed(1)}% requerido)`}
                   </p>
                 </div>
               )}
@@ -662,7 +1052,12 @@ export const SignDetector: React.FC = () => {
                       <span className="text-sm font-mono text-muted-foreground">
                         #{index + 1}
                       </span>
-                      <span className="font-medium">{result.signName}</span>
+                      <span className="font-medium" title={result.explanation}>{result.signName}</span>
+                      {result.samplesCompared > 1 && (
+                        <span className="text-xs text-muted-foreground">
+                          ({result.samplesCompared} tomas)
+                        </span>
+                      )}
                     </div>
                     <div className="flex items-center gap-2">
                       <span className={`text-sm font-mono ${
@@ -673,6 +1068,15 @@ export const SignDetector: React.FC = () => {
                       {result.isMatch && (
                         <CheckCircle className="w-4 h-4 text-success" />
                       )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 px-2"
+                        onClick={() => setTranscriptWords(prev => [...prev, toTranscriptWord(result, comparisonResults)])}
+                        title="Agregar a la transcripción"
+                      >
+                        <Plus className="w-3 h-3" />
+                      </Button>
                     </div>
                   </div>
                 ))}
@@ -680,6 +1084,8 @@ export const SignDetector: React.FC = () => {
             </div>
           </div>
         )}
+
+        <TranscriptPanel words={transcriptWords} onWordsChange={setTranscriptWords} />
       </div>
     </Card>
   );
@@ -1,29 +1,123 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Link } from 'react-router-dom';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { SignRecord, signDatabase } from '@/lib/indexeddb';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SignPackImportDialog } from '@/components/SignPackImportDialog';
+import { SignThresholdEditor } from '@/components/SignThresholdEditor';
+import { SampleSummary, SignRecord, SignSummary, signDatabase } from '@/lib/indexeddb';
+import { SignThreshold, comparisonOptionsFromSettings } from '@/lib/signComparison';
+import { calibrateLibrary } from '@/lib/thresholdCalibration';
+import { FEATURE_EXTRACTOR_VERSION } from '@/lib/signFeatures';
+import { SignPack, SignPackError, SignPackImportResult, exportSignPack, readSignPack } from '@/lib/signPack';
+import { downloadBlob } from '@/lib/utils';
+import { drawHandLandmarks, findKeyframeAt } from '@/lib/landmarkOverlay';
+import { SignQuery, SignSortField, SortDirection } from '@/lib/signSearch';
 import { useToast } from '@/hooks/use-toast';
-import { Play, Trash2, Clock, Hand } from 'lucide-react';
+import { Play, Trash2, Clock, Hand, Layers, X, Download, Upload, Target, Pencil, Search, Tag, FolderOpen } from 'lucide-react';
+
+const ALL = 'all'; // Valor de los selectores sin filtro (Select no admite valores vacíos)
+
+/**
+ * Valores del formulario de filtros tal como se escriben
+ */
+interface LibraryFilters {
+  text: string;
+  tag: string;
+  category: string;
+  minDuration: string;
+  maxDuration: string;
+  createdFrom: string; // yyyy-mm-dd
+  createdTo: string;
+  sort: `${SignSortField}-${SortDirection}`;
+}
+
+const EMPTY_FILTERS: LibraryFilters = {
+  text: '',
+  tag: ALL,
+  category: ALL,
+  minDuration: '',
+  maxDuration: '',
+  createdFrom: '',
+  createdTo: '',
+  sort: 'createdAt-desc'
+};
+
+const SORT_OPTIONS: Array<{ value: LibraryFilters['sort']; label: string }> = [
+  { value: 'createdAt-desc', label: 'Más recientes' },
+  { value: 'createdAt-asc', label: 'Más antiguas' },
+  { value: 'name-asc', label: 'Nombre (A-Z)' },
+  { value: 'name-desc', label: 'Nombre (Z-A)' },
+  { value: 'duration-asc', label: 'Más cortas' },
+  { value: 'duration-desc', label: 'Más largas' }
+];
+
+const parseNumber = (value: string): number | undefined => {
+  const number = parseFloat(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const parseDate = (value: string, endOfDay: boolean): Date | undefined =>
+  value ? new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`) : undefined;
+
+const toSignQuery = (filters: LibraryFilters): SignQuery => {
+  const [sortBy, direction] = filters.sort.split('-') as [SignSortField, SortDirection];
+  return {
+    text: filters.text,
+    tag: filters.tag === ALL ? undefined : filters.tag,
+    category: filters.category === ALL ? undefined : filters.category,
+    minDuration: parseNumber(filters.minDuration),
+    maxDuration: parseNumber(filters.maxDuration),
+    createdFrom: parseDate(filters.createdFrom, false),
+    createdTo: parseDate(filters.createdTo, true),
+    sortBy,
+    direction
+  };
+};
 
 interface SignLibraryProps {
   refreshTrigger?: number;
 }
 
 export const SignLibrary: React.FC<SignLibraryProps> = ({ refreshTrigger }) => {
-  const [signs, setSigns] = useState<SignRecord[]>([]);
+  const [signs, setSigns] = useState<SignSummary[]>([]);
   const [playingSign, setPlayingSign] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isExporting, setIsExporting] = useState(false);
+  const [pendingPack, setPendingPack] = useState<SignPack | null>(null);
+  const [calibrationProgress, setCalibrationProgress] = useState<string | null>(null);
+  const [importExistingSigns, setImportExistingSigns] = useState<SignSummary[]>([]);
+  const [filters, setFilters] = useState<LibraryFilters>(EMPTY_FILTERS);
+  const [facets, setFacets] = useState<{ tags: string[]; categories: string[] }>({ tags: [], categories: [] });
+  const [totalSigns, setTotalSigns] = useState(0);
+  const loadIdRef = useRef(0);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   
   const { toast } = useToast();
 
+  const query = useMemo(() => toSignQuery(filters), [filters]);
+  const hasFilters = JSON.stringify(filters) !== JSON.stringify({ ...EMPTY_FILTERS, sort: filters.sort });
+
   const loadSigns = async () => {
+    const loadId = ++loadIdRef.current;
     try {
       await signDatabase.initialize();
-      const allSigns = await signDatabase.getAllSigns();
-      setSigns(allSigns.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()));
+      const [matching, libraryFacets, total] = await Promise.all([
+        signDatabase.querySigns(query),
+        signDatabase.getSignFacets(),
+        signDatabase.countSigns()
+      ]);
+      // Descartar respuestas de consultas que ya se reemplazaron mientras se escribía
+      if (loadId !== loadIdRef.current) return;
+      setSigns(matching);
+      setFacets(libraryFacets);
+      setTotalSigns(total);
     } catch (error) {
       console.error('Error loading signs:', error);
       toast({
@@ -36,12 +130,21 @@ export const SignLibrary: React.FC<SignLibraryProps> = ({ refreshTrigger }) => {
     }
   };
 
-  const playSign = async (sign: SignRecord) => {
+  const playSign = async (sign: SignSummary, { id: sampleId }: SampleSummary = sign.samples[0]) => {
     try {
-      setPlayingSign(sign.id);
+      setPlayingSign(sampleId);
       
       if (videoRef.current && canvasRef.current) {
-        const videoURL = URL.createObjectURL(sign.videoBlob);
+        // El listado no trae keyframes: se lee la seña completa solo al reproducir
+        const [fullSign, videoBlob] = await Promise.all([
+          signDatabase.getSign(sign.id),
+          signDatabase.getSampleVideo(sampleId)
+        ]);
+        const sample = fullSign?.samples.find(s => s.id === sampleId);
+        if (!sample) throw new Error(`Sample ${sampleId} not found`);
+        if (!videoBlob) throw new Error(`Sample ${sampleId} has no video`);
+
+        const videoURL = URL.createObjectURL(videoBlob);
         videoRef.current.src = videoURL;
         
         const canvas = canvasRef.current;
@@ -61,61 +164,11 @@ export const SignLibrary: React.FC<SignLibraryProps> = ({ refreshTrigger }) => {
             ctx.drawImage(videoRef.current, 0, 0, canvas.width, canvas.height);
             
             // Find closest keyframe based on video time
-            const currentTime = videoRef.current.currentTime * 1000; // Convert to ms
-            const startTime = sign.keyframes[0]?.timestamp || 0;
-            const relativeTime = currentTime + startTime;
-            
-            const closestFrame = sign.keyframes.find((frame, index) => {
-              const nextFrame = sign.keyframes[index + 1];
-              if (!nextFrame) return true;
-              return frame.timestamp <= relativeTime && nextFrame.timestamp > relativeTime;
-            });
+            const closestFrame = findKeyframeAt(sample, videoRef.current.currentTime * 1000);
             
             // Draw hand keypoints if available
             if (closestFrame && closestFrame.hands.length > 0) {
-              for (const hand of closestFrame.hands) {
-                // Draw landmarks
-                for (const landmark of hand.landmarks) {
-                  ctx.beginPath();
-                  ctx.arc(
-                    landmark.x * canvas.width,
-                    landmark.y * canvas.height,
-                    4,
-                    0,
-                    2 * Math.PI
-                  );
-                  ctx.fillStyle = hand.handedness === 'Left' ? '#22d3ee' : '#06b6d4';
-                  ctx.fill();
-                }
-                
-                // Draw connections
-                const connections = [
-                  [0, 1], [1, 2], [2, 3], [3, 4], // Thumb
-                  [0, 5], [5, 6], [6, 7], [7, 8], // Index
-                  [0, 9], [9, 10], [10, 11], [11, 12], // Middle
-                  [0, 13], [13, 14], [14, 15], [15, 16], // Ring
-                  [0, 17], [17, 18], [18, 19], [19, 20], // Pinky
-                  [5, 9], [9, 13], [13, 17] // Palm
-                ];
-                
-                ctx.strokeStyle = hand.handedness === 'Left' ? '#22d3ee' : '#06b6d4';
-                ctx.lineWidth = 2;
-                
-                for (const [start, end] of connections) {
-                  if (hand.landmarks[start] && hand.landmarks[end]) {
-                    ctx.beginPath();
-                    ctx.moveTo(
-                      hand.landmarks[start].x * canvas.width,
-                      hand.landmarks[start].y * canvas.height
-                    );
-                    ctx.lineTo(
-                      hand.landmarks[end].x * canvas.width,
-                      hand.landmarks[end].y * canvas.height
-                    );
-                    ctx.stroke();
-                  }
-                }
-              }
+              drawHandLandmarks(ctx, closestFrame.hands, canvas.width, canvas.height);
             }
           }
         };
@@ -142,6 +195,7 @@ export const SignLibrary: React.FC<SignLibraryProps> = ({ refreshTrigger }) => {
     try {
       await signDatabase.deleteSign(id);
       setSigns(signs.filter(sign => sign.id !== id));
+      setTotalSigns(total => total - 1);
       toast({
         title: "Seña eliminada",
         description: `"${name}" eliminada exitosamente`,
@@ -156,9 +210,167 @@ export const SignLibrary: React.FC<SignLibraryProps> = ({ refreshTrigger }) => {
     }
   };
 
+  const deleteSample = async (sign: SignSummary, sample: SampleSummary) => {
+    try {
+      await signDatabase.deleteSample(sign.id, sample.id);
+      setSigns(signs
+        .map(s => s.id === sign.id ? { ...s, samples: s.samples.filter(t => t.id !== sample.id) } : s)
+        .filter(s => s.samples.length > 0));
+      if (sign.samples.length === 1) setTotalSigns(total => total - 1);
+      toast({
+        title: "Toma eliminada",
+        description: sign.samples.length > 1
+          ? `Se eliminó una toma de "${sign.name}"`
+          : `"${sign.name}" eliminada al quedarse sin tomas`,
+      });
+    } catch (error) {
+      console.error('Error deleting sample:', error);
+      toast({
+        title: "Error",
+        description: "No se pudo eliminar la toma",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const selectedSigns = signs.filter(sign => selectedIds.has(sign.id));
+
+  const exportSigns = async () => {
+    const signsToExport = selectedSigns.length > 0 ? selectedSigns : signs;
+
+    try {
+      setIsExporting(true);
+      const fullSigns = await Promise.all(signsToExport.map(sign => signDatabase.getSign(sign.id)));
+      const pack = await exportSignPack(fullSigns.filter((sign): sign is SignRecord => sign !== null));
+      const date = new Date().toISOString().slice(0, 10);
+      downloadBlob(pack, `senas-${date}.zip`);
+      toast({
+        title: "Paquete exportado",
+        description: `${signsToExport.length} seña${signsToExport.length !== 1 ? 's' : ''} exportada${signsToExport.length !== 1 ? 's' : ''}`,
+      });
+    } catch (error) {
+      console.error('Error exporting signs:', error);
+      toast({
+        title: "Error",
+        description: "No se pudo exportar el paquete de señas",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const [pack, existingSigns] = await Promise.all([readSignPack(file), signDatabase.getSignSummaries()]);
+      setImportExistingSigns(existingSigns);
+      setPendingPack(pack);
+    } catch (error) {
+      console.error('Error reading sign pack:', error);
+      toast({
+        title: "Paquete inválido",
+        description: error instanceof SignPackError ? error.message : "No se pudo leer el archivo",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleImported = (result: SignPackImportResult) => {
+    setPendingPack(null);
+    loadSigns();
+    toast({
+      title: "Paquete importado",
+      description: `${result.added} nuevas, ${result.merged} combinadas, ${result.replaced} reemplazadas, ${result.skipped} omitidas`,
+    });
+  };
+
+  const calibrateThresholds = async () => {
+    try {
+      setCalibrationProgress(`0/${totalSigns}`);
+      // La calibración compara cada seña con todas las demás, no solo con las filtradas
+      const [allSigns, settings] = await Promise.all([signDatabase.getSignCandidates(true), signDatabase.getLibrarySettings()]);
+      const results = await calibrateLibrary(
+        allSigns,
+        comparisonOptionsFromSettings(settings),
+        (done, total) => setCalibrationProgress(`${done}/${total}`)
+      );
+
+      const calibratedAt = new Date();
+      const calibrated = results.filter(result => result.threshold !== null);
+      for (const result of calibrated) {
+        await signDatabase.updateSignThreshold(result.signId, {
+          calibrated: result.threshold!,
+          calibratedAt,
+          extractorVersion: FEATURE_EXTRACTOR_VERSION
+        });
+      }
+
+      // Sin tomas suficientes se borra la calibración anterior para que use el umbral global
+      const stale = results.filter(result =>
+        result.threshold === null && allSigns.find(sign => sign.id === result.signId)?.threshold?.calibrated !== undefined
+      );
+      for (const result of stale) {
+        await signDatabase.updateSignThreshold(result.signId, {
+          calibrated: undefined,
+          calibratedAt: undefined,
+          extractorVersion: undefined
+        });
+      }
+
+      await loadSigns();
+      toast({
+        title: "Umbrales calibrados",
+        description: `${calibrated.length} de ${allSigns.length} señas calibradas${
+          calibrated.length < allSigns.length ? ' (las señas con una sola toma usan el umbral global)' : ''
+        }`,
+      });
+    } catch (error) {
+      console.error('Error calibrating thresholds:', error);
+      toast({
+        title: "Error",
+        description: "No se pudieron calibrar los umbrales",
+        variant: "destructive",
+      });
+    } finally {
+      setCalibrationProgress(null);
+    }
+  };
+
+  const updateThreshold = async (sign: SignSummary, changes: Partial<SignThreshold>) => {
+    try {
+      const threshold = await signDatabase.updateSignThreshold(sign.id, changes);
+      setSigns(prev => prev.map(s => s.id === sign.id ? { ...s, threshold } : s));
+    } catch (error) {
+      console.error('Error updating threshold:', error);
+      toast({
+        title: "Error",
+        description: "No se pudo guardar el umbral",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateFilters = (changes: Partial<LibraryFilters>) => setFilters(prev => ({ ...prev, ...changes }));
+
   useEffect(() => {
     loadSigns();
-  }, [refreshTrigger]);
+  }, [refreshTrigger, query]);
 
   if (loading) {
     return (
@@ -175,10 +387,52 @@ export const SignLibrary: React.FC<SignLibraryProps> = ({ refreshTrigger }) => {
           Biblioteca de Señas
         </h2>
         <p className="text-muted-foreground">
-          {signs.length} seña{signs.length !== 1 ? 's' : ''} guardada{signs.length !== 1 ? 's' : ''}
+          {totalSigns} seña{totalSigns !== 1 ? 's' : ''} guardada{totalSigns !== 1 ? 's' : ''}
+          {hasFilters && ` · ${signs.length} coinciden con los filtros`}
         </p>
       </div>
 
+      <div className="flex flex-wrap justify-center gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={exportSigns}
+          disabled={signs.length === 0 || isExporting}
+        >
+          <Download className="w-3 h-3 mr-1" />
+          {selectedSigns.length > 0
+            ? `Exportar selección (${selectedSigns.length})`
+            : hasFilters ? `Exportar resultados (${signs.length})` : 'Exportar todo'}
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => importInputRef.current?.click()}>
+          <Upload className="w-3 h-3 mr-1" />
+          Importar paquete
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={calibrateThresholds}
+          disabled={totalSigns === 0 || calibrationProgress !== null}
+        >
+          <Target className="w-3 h-3 mr-1" />
+          {calibrationProgress ? `Calibrando ${calibrationProgress}` : 'Calibrar umbrales'}
+        </Button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".zip,application/zip"
+          className="hidden"
+          onChange={handleImportFile}
+        />
+      </div>
+
+      <SignPackImportDialog
+        pack={pendingPack}
+        existingSigns={importExistingSigns}
+        onClose={() => setPendingPack(null)}
+        onImported={handleImported}
+      />
+
       {/* Video player */}
       {playingSign && (
         <div className="space-y-4">
@@ -198,27 +452,160 @@ export const SignLibrary: React.FC<SignLibraryProps> = ({ refreshTrigger }) => {
         </div>
       )}
 
+      {/* Filters */}
+      {totalSigns > 0 && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <div className="relative flex-1 min-w-48">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                className="pl-9"
+                placeholder="Buscar por nombre o alias"
+                value={filters.text}
+                onChange={(e) => updateFilters({ text: e.target.value })}
+              />
+            </div>
+            <Select value={filters.sort} onValueChange={(sort: LibraryFilters['sort']) => updateFilters({ sort })}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={filters.tag} onValueChange={(tag) => updateFilters({ tag })}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todas las etiquetas</SelectItem>
+                {facets.tags.map(tag => (
+                  <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={filters.category} onValueChange={(category) => updateFilters({ category })}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todas las categorías</SelectItem>
+                {facets.categories.map(category => (
+                  <SelectItem key={category} value={category}>{category}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min={0}
+              step={0.5}
+              className="w-24"
+              placeholder="Mín. s"
+              aria-label="Duración mínima en segundos"
+              value={filters.minDuration}
+              onChange={(e) => updateFilters({ minDuration: e.target.value })}
+            />
+            <Input
+              type="number"
+              min={0}
+              step={0.5}
+              className="w-24"
+              placeholder="Máx. s"
+              aria-label="Duración máxima en segundos"
+              value={filters.maxDuration}
+              onChange={(e) => updateFilters({ maxDuration: e.target.value })}
+            />
+            <Input
+              type="date"
+              className="w-40"
+              aria-label="Creadas desde"
+              value={filters.createdFrom}
+              onChange={(e) => updateFilters({ createdFrom: e.target.value })}
+            />
+            <Input
+              type="date"
+              className="w-40"
+              aria-label="Creadas hasta"
+              value={filters.createdTo}
+              onChange={(e) => updateFilters({ createdTo: e.target.value })}
+            />
+            {hasFilters && (
+              <Button size="sm" variant="ghost" onClick={() => setFilters({ ...EMPTY_FILTERS, sort: filters.sort })}>
+                <X className="w-3 h-3 mr-1" />
+                Limpiar filtros
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Signs grid */}
-      {signs.length === 0 ? (
+      {totalSigns === 0 ? (
         <div className="text-center py-8 text-muted-foreground">
           No hay señas guardadas aún. Graba tu primera seña arriba.
         </div>
+      ) : signs.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          Ninguna seña coincide con los filtros.
+        </div>
       ) : (
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
           {signs.map((sign) => (
             <Card key={sign.id} className="p-4 space-y-3">
               <div className="space-y-2">
-                <h3 className="font-semibold text-lg">{sign.name}</h3>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    checked={selectedIds.has(sign.id)}
+                    onCheckedChange={(checked) => toggleSelected(sign.id, checked === true)}
+                    aria-label={`Seleccionar ${sign.name}`}
+                  />
+                  <h3 className="font-semibold text-lg">{sign.name}</h3>
+                </div>
                 <div className="flex flex-wrap gap-2">
+                  <Badge variant="outline">
+                    <Layers className="w-3 h-3 mr-1" />
+                    {sign.samples.length} toma{sign.samples.length !== 1 ? 's' : ''}
+                  </Badge>
                   <Badge variant="outline">
                     <Clock className="w-3 h-3 mr-1" />
-                    {sign.duration}s
+                    {sign.samples[0].duration}s
                   </Badge>
                   <Badge variant="outline">
                     <Hand className="w-3 h-3 mr-1" />
-                    {sign.keyframes.length} frames
+                    {sign.samples.reduce((total, sample) => total + sample.keyframeCount, 0)} frames
                   </Badge>
+                  <SignThresholdEditor sign={sign} onChange={(changes) => updateThreshold(sign, changes)} />
                 </div>
+                {(sign.category || (sign.tags && sign.tags.length > 0)) && (
+                  <div className="flex flex-wrap gap-1">
+                    {sign.category && (
+                      <Badge
+                        variant="secondary"
+                        className="cursor-pointer"
+                        onClick={() => updateFilters({ category: sign.category })}
+                      >
+                        <FolderOpen className="w-3 h-3 mr-1" />
+                        {sign.category}
+                      </Badge>
+                    )}
+                    {sign.tags?.map(tag => (
+                      <Badge
+                        key={tag}
+                        variant="secondary"
+                        className="cursor-pointer"
+                        onClick={() => updateFilters({ tag })}
+                      >
+                        <Tag className="w-3 h-3 mr-1" />
+                        {tag}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
                 <p className="text-sm text-muted-foreground">
                   {sign.createdAt.toLocaleDateString('es-ES', {
                     year: 'numeric',
@@ -230,15 +617,49 @@ export const SignLibrary: React.FC<SignLibraryProps> = ({ refreshTrigger }) => {
                 </p>
               </div>
 
+              {sign.samples.length > 1 && (
+                <div className="space-y-1">
+                  {sign.samples.map((sample, index) => (
+                    <div key={sample.id} className="flex items-center justify-between text-sm">
+                      <button
+                        type="button"
+                        className="flex items-center gap-1 hover:text-primary disabled:opacity-50"
+                        onClick={() => playSign(sign, sample)}
+                        disabled={playingSign === sample.id}
+                      >
+                        <Play className="w-3 h-3" />
+                        Toma {index + 1}
+                        {sample.signer && (
+                          <span className="text-muted-foreground">· {sample.signer}</span>
+                        )}
+                      </button>
+                      <button
+                        type="button"
+                        className="text-muted-foreground hover:text-destructive"
+                        onClick={() => deleteSample(sign, sample)}
+                        aria-label={`Eliminar toma ${index + 1}`}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               <div className="flex gap-2">
                 <Button
                   size="sm"
                   onClick={() => playSign(sign)}
-                  disabled={playingSign === sign.id}
+                  disabled={playingSign === sign.samples[0].id}
                   className="flex-1"
                 >
                   <Play className="w-3 h-3 mr-1" />
-                  {playingSign === sign.id ? 'Reproduciendo...' : 'Reproducir'}
+                  {playingSign === sign.samples[0].id ? 'Reproduciendo...' : 'Reproducir'}
+                </Button>
+                <Button size="sm" variant="outline" asChild title="Ver detalle y editar">
+                  <Link to={`/signs/${sign.id}`}>
+                    <Pencil className="w-3 h-3" />
+                  </Link>
                 </Button>
                 <Button
                   size="sm"
@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { SignSummary } from '@/lib/indexeddb';
+import { DuplicateStrategy, SignPack, SignPackImportResult, findDuplicates, importSignPack } from '@/lib/signPack';
+import { useToast } from '@/hooks/use-toast';
+import { Upload } from 'lucide-react';
+
+interface SignPackImportDialogProps {
+  pack: SignPack | null;
+  existingSigns: SignSummary[];
+  onClose: () => void;
+  onImported: (result: SignPackImportResult) => void;
+}
+
+export const SignPackImportDialog: React.FC<SignPackImportDialogProps> = ({
+  pack,
+  existingSigns,
+  onClose,
+  onImported
+}) => {
+  const [strategy, setStrategy] = useState<DuplicateStrategy>('merge');
+  const [isImporting, setIsImporting] = useState(false);
+
+  const { toast } = useToast();
+
+  const duplicates = pack ? findDuplicates(pack, existingSigns) : [];
+
+  useEffect(() => {
+    setStrategy('merge');
+  }, [pack]);
+
+  const handleImport = async () => {
+    if (!pack) return;
+
+    try {
+      setIsImporting(true);
+      const result = await importSignPack(pack, strategy, existingSigns);
+      onImported(result);
+    } catch (error) {
+      console.error('Error importando paquete:', error);
+      toast({
+        title: "Error de importación",
+        description: "No se pudo importar el paquete de señas",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={pack !== null} onOpenChange={(open) => !open && !isImporting && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Importar paquete de señas</DialogTitle>
+          <DialogDescription>
+            {pack?.signs.length ?? 0} seña{pack?.signs.length !== 1 ? 's' : ''} en el paquete
+            {pack && ` · esquema v${pack.manifest.schemaVersion}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {duplicates.length > 0 ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">
+                {duplicates.length} seña{duplicates.length !== 1 ? 's' : ''} ya existe{duplicates.length !== 1 ? 'n' : ''} en la biblioteca:
+              </h4>
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {duplicates.map(duplicate => (
+                  <div key={duplicate.incoming.id} className="flex items-center justify-between text-sm">
+                    <span>{duplicate.incoming.name}</span>
+                    <Badge variant="outline">
+                      {duplicate.reason === 'id' ? 'mismo id' : `mismo nombre que "${duplicate.existing.name}"`}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <RadioGroup value={strategy} onValueChange={(value) => setStrategy(value as DuplicateStrategy)}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="merge" id="strategy-merge" />
+                <Label htmlFor="strategy-merge">Combinar: agregar las tomas nuevas a la seña existente</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="replace" id="strategy-replace" />
+                <Label htmlFor="strategy-replace">Reemplazar la seña existente por la importada</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="skip" id="strategy-skip" />
+                <Label htmlFor="strategy-skip">Omitir y conservar la seña existente</Label>
+              </div>
+            </RadioGroup>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No hay duplicados; todas las señas se agregarán a la biblioteca.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isImporting}>
+            Cancelar
+          </Button>
+          <Button onClick={handleImport} disabled={isImporting}>
+            <Upload className="w-4 h-4 mr-2" />
+            {isImporting ? 'Importando...' : 'Importar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -3,36 +3,63 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { HandDetector, FrameData } from '@/lib/mediapipe';
-import { signDatabase } from '@/lib/indexeddb';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DetectorSettingsSheet } from '@/components/DetectorSettingsPanel';
+import { HandDetector, HandDetection, HandResultsCallback, FrameData, MediaPipeAssetError, DetectorStats } from '@/lib/mediapipe';
+import { SignSummary, signDatabase } from '@/lib/indexeddb';
+import { DEFAULT_DOMINANT_HAND, DominantHand, dominantHandLabel } from '@/lib/handedness';
+import { loadDetectorOptions, subscribeDetectorOptions } from '@/lib/detectorSettings';
 import { useToast } from '@/hooks/use-toast';
-import { Video, Square, Save, Camera } from 'lucide-react';
+import { Video, Square, Save, Camera, Gauge } from 'lucide-react';
 import { HandLandmarkerResult } from '@mediapipe/tasks-vision';
 
 interface SignRecorderProps {
   onSignSaved?: () => void;
 }
 
+const NEW_SIGN = 'new';
+
 export const SignRecorder: React.FC<SignRecorderProps> = ({ onSignSaved }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const handDetectorRef = useRef<HandDetector | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const onResultsRef = useRef<(results: HandLandmarkerResult) => void>(() => {});
+  const onResultsRef = useRef<HandResultsCallback>(() => {});
   const isRecordingRef = useRef(false);
   
   const [isRecording, setIsRecording] = useState(false);
   const [recordedChunks, setRecordedChunks] = useState<Blob[]>([]);
   const [keyframes, setKeyframes] = useState<FrameData[]>([]);
   const [signName, setSignName] = useState('');
+  const [signerName, setSignerName] = useState('');
+  const [dominantHand, setDominantHand] = useState<DominantHand>(DEFAULT_DOMINANT_HAND);
+  const [signerHands, setSignerHands] = useState<Record<string, DominantHand>>({});
+  const [targetSignId, setTargetSignId] = useState<string>(NEW_SIGN);
+  const [existingSigns, setExistingSigns] = useState<SignSummary[]>([]);
   const [isInitialized, setIsInitialized] = useState(false);
   const [isCameraOn, setIsCameraOn] = useState(false);
   const [handsDetected, setHandsDetected] = useState(0);
+  const [assetError, setAssetError] = useState<string | null>(null);
+  const [detectorStats, setDetectorStats] = useState<DetectorStats | null>(null);
   const [recordingTime, setRecordingTime] = useState(0);
   
   const { toast } = useToast();
 
+  const isNewSign = targetSignId === NEW_SIGN;
+
+  const loadExistingSigns = useCallback(async () => {
+    try {
+      await signDatabase.initialize();
+      const signs = await signDatabase.getSignSummaries();
+      setExistingSigns(signs.sort((a, b) => a.name.localeCompare(b.name, 'es')));
+      setSignerHands((await signDatabase.getLibrarySettings()).signerHands);
+    } catch (error) {
+      console.error('Error cargando señas existentes:', error);
+    }
+  }, []);
+
   const stopCamera = useCallback(() => {
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => {
@@ -48,9 +75,10 @@ export const SignRecorder: React.FC<SignRecorderProps> = ({ onSignSaved }) => {
     }
     setIsInitialized(false);
     setIsCameraOn(false);
+    setDetectorStats(null);
   }, []);
 
-  const onHandResults = useCallback((results: HandLandmarkerResult) => {
+  const onHandResults = useCallback((results: HandLandmarkerResult, detection: HandDetection) => {
     console.log('🔍 onHandResults llamado:', {
       landmarks: results.landmarks?.length || 0,
       isRecording,
@@ -72,6 +100,11 @@ export const SignRecorder: React.FC<SignRecorderProps> = ({ onSignSaved }) => {
           ctx.drawImage(videoRef.current, 0, 0, canvas.width, canvas.height);
         }
       
+        const stats = handDetectorRef.current?.getStats();
+        if (stats && stats.processedFrames % 15 === 0) {
+          setDetectorStats(stats);
+        }
+      
         if (results.landmarks) {
           console.log('👋 Manos detectadas:', results.landmarks.length);
           setHandsDetected(results.landmarks.length);
@@ -134,10 +167,7 @@ export const SignRecorder: React.FC<SignRecorderProps> = ({ onSignSaved }) => {
             console.log('✋ Landmarks encontrados, extrayendo datos...');
             
             try {
-              const frameData: FrameData = {
-                timestamp: performance.now(),
-                hands: HandDetector.extractHandData(results)
-              };
+              const frameData: FrameData = HandDetector.extractFrameData(detection, performance.now());
               
               console.log('📊 Datos extraídos del frame:', {
                 handsCount: frameData.hands.length,
@@ -210,12 +240,24 @@ export const SignRecorder: React.FC<SignRecorderProps> = ({ onSignSaved }) => {
         console.log('▶️ Video reproduciendo');
         
         console.log('🤖 Inicializando detector de manos...');
-        handDetectorRef.current = new HandDetector();
-        await handDetectorRef.current.initialize(videoRef.current, (res: HandLandmarkerResult) => onResultsRef.current(res));
+        handDetectorRef.current = new HandDetector(loadDetectorOptions());
+        await handDetectorRef.current.initialize(
+          videoRef.current,
+          (res, detection) => onResultsRef.current(res, detection),
+          (detectorError) => {
+            stopCamera();
+            toast({
+              title: "Error del detector",
+              description: `${detectorError.message}. Vuelve a iniciar la cámara.`,
+              variant: "destructive",
+            });
+          }
+        );
         console.log('✅ Detector de manos inicializado');
         
         setIsInitialized(true);
         setIsCameraOn(true);
+        setAssetError(null);
         toast({
           title: "Cámara iniciada",
           description: "Sistema de detección de manos activo",
@@ -224,6 +266,15 @@ export const SignRecorder: React.FC<SignRecorderProps> = ({ onSignSaved }) => {
     } catch (error) {
       console.error('❌ Error accessing camera:', error);
       stopCamera(); // Clean up on error
+      if (error instanceof MediaPipeAssetError) {
+        setAssetError(error.message);
+        toast({
+          title: "Archivos de MediaPipe no disponibles",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Error de cámara",
         description: "Cámara en uso por otra aplicación. Cierra otras pestañas que usen la cámara.",
@@ -300,10 +351,10 @@ export const SignRecorder: React.FC<SignRecorderProps> = ({ onSignSaved }) => {
   }, [isRecording]);
 
   const saveSign = useCallback(async () => {
-    if (!signName.trim() || recordedChunks.length === 0) {
+    if ((isNewSign && !signName.trim()) || recordedChunks.length === 0) {
       toast({
         title: "Error",
-        description: "Ingresa un nombre y graba una seña",
+        description: isNewSign ? "Ingresa un nombre y graba una seña" : "Graba una toma de la seña",
         variant: "destructive",
       });
       return;
@@ -347,13 +398,26 @@ export const SignRecorder: React.FC<SignRecorderProps> = ({ onSignSaved }) => {
     
     try {
       const videoBlob = new Blob(recordedChunks, { type: 'video/webm' });
-      
-      await signDatabase.saveSign({
-        name: signName.trim(),
+      const sample = {
         videoBlob,
         keyframes: validKeyframes, // Guardar solo keyframes válidos
-        duration: recordingTime
-      });
+        duration: recordingTime,
+        signer: signerName.trim() || undefined,
+        dominantHand
+      };
+      
+      let savedName = signName.trim();
+      if (isNewSign) {
+        await signDatabase.saveSign({ name: savedName, samples: [sample] });
+      } else {
+        await signDatabase.addSample(targetSignId, sample);
+        savedName = existingSigns.find(sign => sign.id === targetSignId)?.name || '';
+      }
+
+      // Recordar la mano dominante de la persona y aplicarla a sus tomas anteriores
+      if (sample.signer && signerHands[sample.signer] !== dominantHand) {
+        await signDatabase.setSignerDominantHand(sample.signer, dominantHand);
+      }
       
       console.log('✓ Seña guardada exitosamente en base de datos');
       
@@ -363,10 +427,11 @@ export const SignRecorder: React.FC<SignRecorderProps> = ({ onSignSaved }) => {
       setRecordingTime(0);
       
       toast({
-        title: "Seña guardada",
-        description: `"${signName}" guardada con ${validKeyframes.length} keyframes válidos`,
+        title: isNewSign ? "Seña guardada" : "Toma agregada",
+        description: `"${savedName}" guardada con ${validKeyframes.length} keyframes válidos`,
       });
       
+      await loadExistingSigns();
       onSignSaved?.();
     } catch (error) {
       console.error('Error saving sign:', error);
@@ -376,7 +441,13 @@ export const SignRecorder: React.FC<SignRecorderProps> = ({ onSignSaved }) => {
         variant: "destructive",
       });
     }
-  }, [signName, recordedChunks, keyframes, recordingTime, onSignSaved, toast]);
+  }, [signName, signerName, dominantHand, signerHands, isNewSign, targetSignId, existingSigns, recordedChunks, keyframes, recordingTime, loadExistingSigns, onSignSaved, toast]);
+
+  const handleSignerChange = (name: string) => {
+    setSignerName(name);
+    const knownHand = signerHands[name.trim()];
+    if (knownHand) setDominantHand(knownHand);
+  };
 
   const toggleCamera = useCallback(async () => {
     if (isCameraOn) {
@@ -392,10 +463,26 @@ export const SignRecorder: React.FC<SignRecorderProps> = ({ onSignSaved }) => {
     };
   }, [stopCamera]);
 
+  useEffect(() => {
+    loadExistingSigns();
+  }, [loadExistingSigns]);
+
   useEffect(() => {
     onResultsRef.current = onHandResults;
   }, [onHandResults]);
 
+  // Aplicar en caliente los cambios de opciones del detector hechos en Ajustes
+  useEffect(() => subscribeDetectorOptions(options => {
+    handDetectorRef.current?.setOptions(options).catch(error => {
+      console.error('Error reconfigurando el detector:', error);
+      toast({
+        title: "Error del detector",
+        description: error instanceof MediaPipeAssetError ? error.message : "No se pudieron aplicar las nuevas opciones",
+        variant: "destructive",
+      });
+    });
+  }), [toast]);
+
   useEffect(() => {
     isRecordingRef.current = isRecording;
   }, [isRecording]);
@@ -451,6 +538,17 @@ export const SignRecorder: React.FC<SignRecorderProps> = ({ onSignSaved }) => {
             {isInitialized ? "Cámara activa" : "Iniciando..."}
           </Badge>
           
+          {detectorStats && (
+            <Badge
+              variant="outline"
+              className="bg-background/80"
+              title={`Inferencia: ${detectorStats.inferenceMs.toFixed(1)} ms · Frames descartados: ${detectorStats.droppedFrames}`}
+            >
+              <Gauge className="w-3 h-3 mr-1" />
+              {Math.round(detectorStats.averageLatencyMs)} ms
+            </Badge>
+          )}
+          
           {handsDetected > 0 && (
             <Badge variant="outline" className="bg-accent text-accent-foreground">
               {handsDetected} mano{handsDetected > 1 ? 's' : ''} detectada{handsDetected > 1 ? 's' : ''}
@@ -468,13 +566,58 @@ export const SignRecorder: React.FC<SignRecorderProps> = ({ onSignSaved }) => {
         )}
       </div>
 
+      {assetError && (
+        <Alert variant="destructive">
+          <AlertTitle>Detector no disponible</AlertTitle>
+          <AlertDescription>{assetError}</AlertDescription>
+        </Alert>
+      )}
+
       <div className="space-y-4">
-        <Input
-          placeholder="Nombre de la seña (ej: fiebre, hola, gracias)"
-          value={signName}
-          onChange={(e) => setSignName(e.target.value)}
-          disabled={isRecording}
-        />
+        <Select value={targetSignId} onValueChange={setTargetSignId} disabled={isRecording}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NEW_SIGN}>Nueva seña</SelectItem>
+            {existingSigns.map(sign => (
+              <SelectItem key={sign.id} value={sign.id}>
+                Otra toma de "{sign.name}" ({sign.samples.length} toma{sign.samples.length !== 1 ? 's' : ''})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {isNewSign && (
+          <Input
+            placeholder="Nombre de la seña (ej: fiebre, hola, gracias)"
+            value={signName}
+            onChange={(e) => setSignName(e.target.value)}
+            disabled={isRecording}
+          />
+        )}
+
+        <div className="flex gap-3">
+          <Input
+            placeholder="Persona que realiza la seña (opcional)"
+            value={signerName}
+            onChange={(e) => handleSignerChange(e.target.value)}
+            disabled={isRecording}
+          />
+          <Select
+            value={dominantHand}
+            onValueChange={(value) => setDominantHand(value as DominantHand)}
+            disabled={isRecording}
+          >
+            <SelectTrigger className="w-40" aria-label="Mano dominante">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="right">{dominantHandLabel('right')}</SelectItem>
+              <SelectItem value="left">{dominantHandLabel('left')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
 
         <div className="flex gap-3">
           <Button
@@ -485,6 +628,7 @@ export const SignRecorder: React.FC<SignRecorderProps> = ({ onSignSaved }) => {
             <Camera className="w-4 h-4 mr-2" />
             {isCameraOn ? "Apagar Cámara" : "Prender Cámara"}
           </Button>
+          <DetectorSettingsSheet />
         </div>
 
         {isCameraOn && (
@@ -510,7 +654,7 @@ export const SignRecorder: React.FC<SignRecorderProps> = ({ onSignSaved }) => {
 
             <Button
               onClick={saveSign}
-              disabled={recordedChunks.length === 0 || !signName.trim()}
+              disabled={recordedChunks.length === 0 || (isNewSign && !signName.trim())}
               variant="outline"
             >
               <Save className="w-4 h-4 mr-2" />
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { SignRecord } from '@/lib/indexeddb';
+import { SignThreshold, currentCalibration, signComparisonService } from '@/lib/signComparison';
+import { Target } from 'lucide-react';
+
+interface SignThresholdEditorProps {
+  sign: Pick<SignRecord, 'id' | 'threshold'>;
+  onChange: (changes: Partial<SignThreshold>) => Promise<void>;
+}
+
+const toPercent = (value: number): string => (value * 100).toFixed(1);
+
+/**
+ * Muestra el umbral efectivo de una seña y permite fijarlo manualmente
+ */
+export const SignThresholdEditor: React.FC<SignThresholdEditorProps> = ({ sign, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState('');
+
+  const threshold = signComparisonService.getThreshold(sign);
+  const calibrated = currentCalibration(sign.threshold);
+  const isOutdated = calibrated === undefined && sign.threshold?.calibrated !== undefined;
+  const source = sign.threshold?.override !== undefined
+    ? 'manual'
+    : calibrated !== undefined ? 'calibrado' : 'global';
+
+  const parsed = Number(value) / 100;
+  const isValid = value.trim() !== '' && parsed > 0 && parsed <= 1;
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) setValue(toPercent(threshold));
+  };
+
+  const save = async (changes: Partial<SignThreshold>) => {
+    await onChange(changes);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button type="button" title="Umbral de reconocimiento de esta seña">
+          <Badge variant={source === 'manual' ? 'secondary' : 'outline'}>
+            <Target className="w-3 h-3 mr-1" />
+            {toPercent(threshold)}% · {source}
+          </Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3">
+        <div className="space-y-1 text-xs text-muted-foreground">
+          <p>
+            Calibrado: {calibrated !== undefined
+              ? `${toPercent(calibrated)}%`
+              : isOutdated ? 'desactualizado, vuelve a calibrar' : 'sin calibrar'}
+          </p>
+          {calibrated !== undefined && sign.threshold?.calibratedAt && (
+            <p>{sign.threshold.calibratedAt.toLocaleString('es-ES')}</p>
+          )}
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`threshold-${sign.id}`}>Umbral manual (%)</Label>
+          <Input
+            id={`threshold-${sign.id}`}
+            type="number"
+            min={1}
+            max={100}
+            step={0.5}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" className="flex-1" disabled={!isValid} onClick={() => save({ override: parsed })}>
+            Fijar
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="flex-1"
+            disabled={sign.threshold?.override === undefined}
+            onClick={() => save({ override: undefined })}
+          >
+            Automático
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
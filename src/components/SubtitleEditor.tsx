@@ -0,0 +1,138 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { SubtitleCue, cuesToSRT, cuesToWebVTT } from '@/lib/subtitles';
+import { downloadBlob } from '@/lib/utils';
+import { Captions, Download, Play, Plus, Trash2 } from 'lucide-react';
+
+const NEW_CUE_MS = 1500;
+
+interface SubtitleEditorProps {
+  video: Blob;
+  cues: SubtitleCue[];
+  onCuesChange: (cues: SubtitleCue[]) => void;
+  fileName: string; // Nombre base de los archivos exportados, sin extensión
+}
+
+/**
+ * Vista previa del video con los subtítulos como pista, edición de cada subtítulo
+ * y exportación en WebVTT o SRT
+ */
+export const SubtitleEditor: React.FC<SubtitleEditorProps> = ({ video, cues, onCuesChange, fileName }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [trackUrl, setTrackUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(video);
+    setVideoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [video]);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(new Blob([cuesToWebVTT(cues)], { type: 'text/vtt' }));
+    setTrackUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [cues]);
+
+  // La pista se vuelve a montar con cada cambio; hay que mostrarla explícitamente
+  useEffect(() => {
+    const track = videoRef.current?.textTracks[0];
+    if (track) track.mode = 'showing';
+  }, [trackUrl]);
+
+  const updateCue = (id: string, changes: Partial<SubtitleCue>) => {
+    onCuesChange(cues.map(cue => cue.id === id ? { ...cue, ...changes } : cue));
+  };
+
+  const addCue = () => {
+    const startTime = (videoRef.current?.currentTime ?? 0) * 1000;
+    onCuesChange([...cues, { id: crypto.randomUUID(), startTime, endTime: startTime + NEW_CUE_MS, text: '' }]
+      .sort((a, b) => a.startTime - b.startTime));
+  };
+
+  const seek = (ms: number) => {
+    if (!videoRef.current) return;
+    videoRef.current.currentTime = ms / 1000;
+    videoRef.current.play().catch(() => undefined);
+  };
+
+  const exportSubtitles = (format: 'vtt' | 'srt') => {
+    const content = format === 'vtt' ? cuesToWebVTT(cues) : cuesToSRT(cues);
+    const type = format === 'vtt' ? 'text/vtt' : 'application/x-subrip';
+    downloadBlob(new Blob([content], { type }), `${fileName}.${format}`);
+  };
+
+  const videoExtension = video.type.includes('mp4') ? 'mp4' : 'webm';
+
+  return (
+    <div className="space-y-4">
+      {videoUrl && (
+        <video ref={videoRef} src={videoUrl} controls className="w-full max-h-80 rounded-lg bg-black">
+          {trackUrl && <track key={trackUrl} kind="subtitles" srcLang="es" label="Señas" src={trackUrl} default />}
+        </video>
+      )}
+
+      <div className="space-y-2 max-h-72 overflow-y-auto">
+        {cues.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center">Sin subtítulos todavía</p>
+        )}
+        {cues.map(cue => (
+          <div key={cue.id} className="grid grid-cols-[5rem_5rem_1fr_auto_auto] items-center gap-2">
+            <Input
+              type="number"
+              min={0}
+              step={0.1}
+              value={Number((cue.startTime / 1000).toFixed(2))}
+              onChange={(e) => updateCue(cue.id, { startTime: Number(e.target.value) * 1000 })}
+              aria-label="Inicio (segundos)"
+            />
+            <Input
+              type="number"
+              min={0}
+              step={0.1}
+              value={Number((cue.endTime / 1000).toFixed(2))}
+              onChange={(e) => updateCue(cue.id, { endTime: Number(e.target.value) * 1000 })}
+              aria-label="Fin (segundos)"
+            />
+            <Input
+              value={cue.text}
+              placeholder="Texto del subtítulo"
+              onChange={(e) => updateCue(cue.id, { text: e.target.value })}
+            />
+            <Button size="icon" variant="ghost" onClick={() => seek(cue.startTime)} title="Reproducir desde aquí">
+              <Play className="w-4 h-4" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => onCuesChange(cues.filter(other => other.id !== cue.id))}
+              title="Eliminar subtítulo"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={addCue}>
+          <Plus className="w-4 h-4 mr-2" />
+          Agregar en la posición actual
+        </Button>
+        <Button variant="outline" onClick={() => exportSubtitles('vtt')} disabled={cues.length === 0}>
+          <Captions className="w-4 h-4 mr-2" />
+          WebVTT
+        </Button>
+        <Button variant="outline" onClick={() => exportSubtitles('srt')} disabled={cues.length === 0}>
+          <Captions className="w-4 h-4 mr-2" />
+          SRT
+        </Button>
+        <Button variant="outline" onClick={() => downloadBlob(video, `${fileName}.${videoExtension}`)}>
+          <Download className="w-4 h-4 mr-2" />
+          Video
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,246 @@
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { SignSample, SignSummary, signDatabase } from '@/lib/indexeddb';
+import { PhraseToken, matchPhrase } from '@/lib/textToSign';
+import { drawHandLandmarks, findKeyframeAt } from '@/lib/landmarkOverlay';
+import { useToast } from '@/hooks/use-toast';
+import { AlertCircle, Play, Square } from 'lucide-react';
+
+const MISSING_WORD_MS = 1200; // Tiempo que se muestra una palabra sin seña
+const PLACEHOLDER_SIZE = { width: 640, height: 480 };
+
+/**
+ * Espera el tiempo indicado o hasta que se cancele la reproducción
+ */
+const wait = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+/**
+ * Reproduce una toma en el canvas con sus landmarks; termina al acabar el video o al cancelar
+ */
+function playSample(
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  sample: SignSample,
+  videoBlob: Blob,
+  signal: AbortSignal
+): Promise<void> {
+  return new Promise(resolve => {
+    const url = URL.createObjectURL(videoBlob);
+    const ctx = canvas.getContext('2d');
+    let animationFrameId = 0;
+    let finished = false;
+
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      cancelAnimationFrame(animationFrameId);
+      video.pause();
+      video.onended = null;
+      video.onerror = null;
+      URL.revokeObjectURL(url);
+      resolve();
+    };
+
+    const draw = () => {
+      if (ctx) {
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const frame = findKeyframeAt(sample, video.currentTime * 1000);
+        if (frame) drawHandLandmarks(ctx, frame.hands, canvas.width, canvas.height);
+      }
+      animationFrameId = requestAnimationFrame(draw);
+    };
+
+    video.onloadedmetadata = () => {
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+    };
+    video.onended = finish;
+    video.onerror = finish;
+    signal.addEventListener('abort', finish, { once: true });
+
+    video.src = url;
+    video.play().then(draw).catch(finish);
+  });
+}
+
+/**
+ * Muestra en el canvas una palabra que no tiene seña en la biblioteca
+ */
+function drawMissingWord(canvas: HTMLCanvasElement, word: string): void {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  if (canvas.width === 0) {
+    canvas.width = PLACEHOLDER_SIZE.width;
+    canvas.height = PLACEHOLDER_SIZE.height;
+  }
+
+  ctx.fillStyle = '#1f2937';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#f87171';
+  ctx.font = `bold ${Math.round(canvas.height / 8)}px sans-serif`;
+  ctx.fillText(word, canvas.width / 2, canvas.height / 2 - canvas.height / 12);
+  ctx.fillStyle = '#9ca3af';
+  ctx.font = `${Math.round(canvas.height / 16)}px sans-serif`;
+  ctx.fillText('Sin seña en la biblioteca', canvas.width / 2, canvas.height / 2 + canvas.height / 10);
+}
+
+interface TextToSignPlayerProps {
+  refreshTrigger?: number;
+}
+
+/**
+ * Traduce una frase escrita a la secuencia de videos de señas de la biblioteca
+ */
+export const TextToSignPlayer: React.FC<TextToSignPlayerProps> = ({ refreshTrigger }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const [signs, setSigns] = useState<SignSummary[]>([]);
+  const [phrase, setPhrase] = useState('');
+  const [currentIndex, setCurrentIndex] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const { toast } = useToast();
+
+  const tokens: PhraseToken[] = useMemo(() => matchPhrase(phrase, signs), [phrase, signs]);
+  const missingCount = tokens.filter(token => !token.sign).length;
+
+  const loadSigns = useCallback(async () => {
+    try {
+      await signDatabase.initialize();
+      setSigns(await signDatabase.getSignSummaries());
+    } catch (error) {
+      console.error('Error cargando señas:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSigns();
+  }, [loadSigns, refreshTrigger]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const playPhrase = async () => {
+    if (!videoRef.current || !canvasRef.current || tokens.length === 0) return;
+
+    abortRef.current = new AbortController();
+    const { signal } = abortRef.current;
+    setIsPlaying(true);
+
+    try {
+      for (let index = 0; index < tokens.length && !signal.aborted; index++) {
+        setCurrentIndex(index);
+        const token = tokens[index];
+
+        // Solo se leen los keyframes de las señas que se reproducen
+        const sign = token.sign ? await signDatabase.getSign(token.sign.id) : null;
+        const sample = sign?.samples[0];
+        const videoBlob = sample ? await signDatabase.getSampleVideo(sample.id) : null;
+
+        if (sample && videoBlob) {
+          await playSample(videoRef.current, canvasRef.current, sample, videoBlob, signal);
+        } else {
+          drawMissingWord(canvasRef.current, token.text);
+          await wait(MISSING_WORD_MS, signal);
+        }
+      }
+    } catch (error) {
+      console.error('Error reproduciendo la frase:', error);
+      toast({
+        title: "Error",
+        description: "No se pudo reproducir la frase",
+        variant: "destructive",
+      });
+    } finally {
+      abortRef.current = null;
+      setCurrentIndex(null);
+      setIsPlaying(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div className="text-center space-y-2">
+        <h2 className="text-2xl font-bold bg-gradient-tech bg-clip-text text-transparent">
+          Texto a señas
+        </h2>
+        <p className="text-muted-foreground">
+          Escribe una frase y se reproducirán las señas de la biblioteca en orden
+        </p>
+      </div>
+
+      <Textarea
+        placeholder="Escribe o pega una frase (ej: hola, tengo fiebre)"
+        value={phrase}
+        onChange={(e) => setPhrase(e.target.value)}
+        disabled={isPlaying}
+        rows={3}
+      />
+
+      {tokens.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2">
+            {tokens.map((token, index) => (
+              <Badge
+                key={index}
+                variant={token.sign ? 'secondary' : 'outline'}
+                className={`text-sm ${
+                  index === currentIndex ? 'ring-2 ring-primary' : ''
+                } ${token.sign ? '' : 'border-destructive text-destructive line-through'}`}
+                title={token.sign ? `Seña "${token.sign.name}"` : 'No hay seña para esta palabra'}
+              >
+                {token.text}
+              </Badge>
+            ))}
+          </div>
+          {missingCount > 0 && (
+            <p className="flex items-center gap-1 text-sm text-destructive">
+              <AlertCircle className="w-4 h-4" />
+              {missingCount} palabra{missingCount !== 1 ? 's' : ''} sin seña en la biblioteca
+            </p>
+          )}
+        </div>
+      )}
+
+      <Button
+        onClick={isPlaying ? () => abortRef.current?.abort() : playPhrase}
+        disabled={!isPlaying && tokens.length === 0}
+        variant={isPlaying ? "destructive" : "default"}
+        className="w-full"
+      >
+        {isPlaying ? (
+          <>
+            <Square className="w-4 h-4 mr-2" />
+            Detener
+          </>
+        ) : (
+          <>
+            <Play className="w-4 h-4 mr-2" />
+            Reproducir frase
+          </>
+        )}
+      </Button>
+
+      <div className={isPlaying ? '' : 'hidden'}>
+        <video ref={videoRef} className="hidden" muted playsInline />
+        <canvas
+          ref={canvasRef}
+          className="w-full rounded-lg border-2 border-accent shadow-glow-tech max-h-96"
+        />
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,213 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { TranscriptRecord, TranscriptWord, signDatabase } from '@/lib/indexeddb';
+import { voiceAlertService } from '@/lib/voiceAlert';
+import { useToast } from '@/hooks/use-toast';
+import { Volume2, Save, Trash2, X, MessageSquare } from 'lucide-react';
+
+interface TranscriptPanelProps {
+  words: TranscriptWord[];
+  onWordsChange: (words: TranscriptWord[]) => void;
+}
+
+export const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ words, onWordsChange }) => {
+  const [savedTranscripts, setSavedTranscripts] = useState<TranscriptRecord[]>([]);
+  const [editingWordId, setEditingWordId] = useState<string | null>(null);
+
+  const { toast } = useToast();
+
+  const sentence = words.map(word => word.text).join(' ');
+
+  const loadTranscripts = useCallback(async () => {
+    try {
+      await signDatabase.initialize();
+      setSavedTranscripts(await signDatabase.getAllTranscripts());
+    } catch (error) {
+      console.error('Error cargando transcripciones:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTranscripts();
+  }, [loadTranscripts]);
+
+  const updateWord = (id: string, changes: Partial<TranscriptWord>) => {
+    onWordsChange(words.map(word => word.id === id ? { ...word, ...changes } : word));
+  };
+
+  const removeWord = (id: string) => {
+    onWordsChange(words.filter(word => word.id !== id));
+    setEditingWordId(null);
+  };
+
+  const speakSentence = async () => {
+    try {
+      await voiceAlertService.speakSentence(sentence);
+    } catch (error) {
+      console.error('Error en síntesis de voz:', error);
+      toast({
+        title: "Error de voz",
+        description: "No se pudo leer la frase en voz alta",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const saveTranscript = async () => {
+    try {
+      await signDatabase.saveTranscript(words);
+      onWordsChange([]);
+      await loadTranscripts();
+      toast({
+        title: "Transcripción guardada",
+        description: `"${sentence}"`,
+      });
+    } catch (error) {
+      console.error('Error guardando transcripción:', error);
+      toast({
+        title: "Error",
+        description: "No se pudo guardar la transcripción",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteTranscript = async (id: string) => {
+    try {
+      await signDatabase.deleteTranscript(id);
+      setSavedTranscripts(prev => prev.filter(transcript => transcript.id !== id));
+    } catch (error) {
+      console.error('Error eliminando transcripción:', error);
+    }
+  };
+
+  return (
+    <div className="border-t pt-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <MessageSquare className="w-5 h-5" />
+          Transcripción
+        </h3>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={speakSentence} disabled={words.length === 0}>
+            <Volume2 className="w-3 h-3 mr-1" />
+            Hablar
+          </Button>
+          <Button size="sm" variant="outline" onClick={saveTranscript} disabled={words.length === 0}>
+            <Save className="w-3 h-3 mr-1" />
+            Guardar
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => onWordsChange([])} disabled={words.length === 0}>
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        </div>
+      </div>
+
+      {words.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Las señas reconocidas se irán agregando aquí para formar una frase.
+        </p>
+      ) : (
+        <div className="flex flex-wrap gap-2 p-3 rounded-lg border bg-muted/30">
+          {words.map(word => (
+            <Popover
+              key={word.id}
+              open={editingWordId === word.id}
+              onOpenChange={(open) => setEditingWordId(open ? word.id : null)}
+            >
+              <PopoverTrigger asChild>
+                <button
+                  type="button"
+                  className="px-2 py-1 rounded-md bg-background border text-base font-medium hover:border-primary"
+                  title={word.similarity !== undefined ? `${(word.similarity * 100).toFixed(1)}% similitud` : 'Editado manualmente'}
+                >
+                  {word.text}
+                </button>
+              </PopoverTrigger>
+              <PopoverContent className="w-64 space-y-3">
+                <Input
+                  value={word.text}
+                  onChange={(e) => updateWord(word.id, { text: e.target.value })}
+                  aria-label="Texto de la palabra"
+                />
+                {word.alternatives.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="text-xs text-muted-foreground">Corregir con otra coincidencia:</p>
+                    {word.alternatives.map(alternative => (
+                      <button
+                        key={alternative.signId}
+                        type="button"
+                        className="flex w-full justify-between rounded px-2 py-1 text-sm hover:bg-muted"
+                        onClick={() => {
+                          updateWord(word.id, {
+                            text: alternative.signName,
+                            signId: alternative.signId,
+                            similarity: alternative.similarity
+                          });
+                          setEditingWordId(null);
+                        }}
+                      >
+                        <span>{alternative.signName}</span>
+                        <span className="font-mono text-muted-foreground">
+                          {(alternative.similarity * 100).toFixed(1)}%
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <Button size="sm" variant="destructive" className="w-full" onClick={() => removeWord(word.id)}>
+                  <X className="w-3 h-3 mr-1" />
+                  Quitar palabra
+                </Button>
+              </PopoverContent>
+            </Popover>
+          ))}
+        </div>
+      )}
+
+      {savedTranscripts.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-muted-foreground">Transcripciones guardadas</h4>
+          <div className="space-y-1 max-h-48 overflow-y-auto">
+            {savedTranscripts.map(transcript => (
+              <div key={transcript.id} className="flex items-center justify-between gap-2 p-2 rounded-lg border text-sm">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Badge variant="outline" className="shrink-0">
+                    {transcript.createdAt.toLocaleString('es-ES', {
+                      day: 'numeric',
+                      month: 'short',
+                      hour: '2-digit',
+                      minute: '2-digit'
+                    })}
+                  </Badge>
+                  <span className="truncate">{transcript.text}</span>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:text-primary"
+                    onClick={() => voiceAlertService.speakSentence(transcript.text).catch(console.error)}
+                    aria-label="Hablar transcripción"
+                  >
+                    <Volume2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    className="text-muted-foreground hover:text-destructive"
+                    onClick={() => deleteTranscript(transcript.id)}
+                    aria-label="Eliminar transcripción"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
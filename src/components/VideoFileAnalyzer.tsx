@@ -0,0 +1,400 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SignSummary, signDatabase } from '@/lib/indexeddb';
+import { MediaPipeAssetError } from '@/lib/mediapipe';
+import { loadDetectorOptions } from '@/lib/detectorSettings';
+import { DEFAULT_DOMINANT_HAND, DominantHand, dominantHandLabel } from '@/lib/handedness';
+import { comparisonOptionsFromSettings } from '@/lib/signComparison';
+import { SubtitleCue } from '@/lib/subtitles';
+import { SubtitleEditor } from '@/components/SubtitleEditor';
+import {
+  ACCEPTED_VIDEO_TYPES,
+  VideoAnalysisProgress,
+  VideoKeyframes,
+  VideoRecognition,
+  extractVideoKeyframes,
+  recognizeVideoKeyframes
+} from '@/lib/videoFileAnalysis';
+import { useToast } from '@/hooks/use-toast';
+import { FileVideo, Plus, Save, Search, Square } from 'lucide-react';
+
+const NEW_SIGN = 'new';
+
+type AnalysisStage = 'detecting' | 'comparing';
+
+const STAGE_LABELS: Record<AnalysisStage, string> = {
+  detecting: 'Detectando manos cuadro a cuadro',
+  comparing: 'Comparando segmentos con la biblioteca',
+};
+
+const formatVideoTime = (ms: number): string => {
+  const totalSeconds = Math.max(0, ms) / 1000;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds % 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${seconds}`;
+};
+
+const toCue = (recognition: VideoRecognition, text: string): SubtitleCue => ({
+  id: recognition.id,
+  startTime: recognition.startTime,
+  endTime: recognition.endTime,
+  text
+});
+
+interface VideoFileAnalyzerProps {
+  onSignSaved?: () => void;
+}
+
+/**
+ * Crea tomas o reconoce señas a partir de archivos de video (por ejemplo, videos de enseñanza)
+ */
+export const VideoFileAnalyzer: React.FC<VideoFileAnalyzerProps> = ({ onSignSaved }) => {
+  const abortRef = useRef<AbortController | null>(null);
+  // Los keyframes de un archivo se reutilizan entre "crear seña" y "reconocer"
+  const keyframesRef = useRef<{ file: File; keyframes: VideoKeyframes } | null>(null);
+
+  const [file, setFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [stage, setStage] = useState<AnalysisStage | null>(null);
+  const [progress, setProgress] = useState<VideoAnalysisProgress | null>(null);
+  const [existingSigns, setExistingSigns] = useState<SignSummary[]>([]);
+  const [signerHands, setSignerHands] = useState<Record<string, DominantHand>>({});
+  const [targetSignId, setTargetSignId] = useState<string>(NEW_SIGN);
+  const [signName, setSignName] = useState('');
+  const [signerName, setSignerName] = useState('');
+  const [dominantHand, setDominantHand] = useState<DominantHand>(DEFAULT_DOMINANT_HAND);
+  const [recognitions, setRecognitions] = useState<VideoRecognition[]>([]);
+  const [cues, setCues] = useState<SubtitleCue[]>([]);
+
+  const { toast } = useToast();
+
+  const isNewSign = targetSignId === NEW_SIGN;
+  const isBusy = stage !== null;
+
+  const loadExistingSigns = useCallback(async () => {
+    try {
+      await signDatabase.initialize();
+      const signs = await signDatabase.getSignSummaries();
+      setExistingSigns(signs.sort((a, b) => a.name.localeCompare(b.name, 'es')));
+      setSignerHands((await signDatabase.getLibrarySettings()).signerHands);
+    } catch (error) {
+      console.error('Error cargando señas existentes:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadExistingSigns();
+  }, [loadExistingSigns]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (!previewUrl) return;
+    return () => URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    setPreviewUrl(selected ? URL.createObjectURL(selected) : null);
+    setRecognitions([]);
+    setCues([]);
+    if (selected && isNewSign && !signName.trim()) {
+      setSignName(selected.name.replace(/\.[^.]+$/, ''));
+    }
+  };
+
+  const handleSignerChange = (name: string) => {
+    setSignerName(name);
+    const knownHand = signerHands[name.trim()];
+    if (knownHand) setDominantHand(knownHand);
+  };
+
+  /**
+   * Extrae los keyframes del archivo actual (o reutiliza los ya extraídos)
+   */
+  const getKeyframes = async (selected: File, signal: AbortSignal): Promise<VideoKeyframes> => {
+    if (keyframesRef.current?.file === selected) return keyframesRef.current.keyframes;
+
+    setStage('detecting');
+    setProgress({ done: 0, total: 0 });
+    const keyframes = await extractVideoKeyframes(selected, loadDetectorOptions(), setProgress, signal);
+    keyframesRef.current = { file: selected, keyframes };
+    return keyframes;
+  };
+
+  const runAnalysis = async (task: (selected: File, signal: AbortSignal) => Promise<void>) => {
+    if (!file) return;
+
+    abortRef.current = new AbortController();
+    try {
+      await task(file, abortRef.current.signal);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      console.error('Error analizando el video:', error);
+      toast({
+        title: "Error",
+        description: error instanceof MediaPipeAssetError ? error.message : "No se pudo analizar el archivo de video",
+        variant: "destructive",
+      });
+    } finally {
+      abortRef.current = null;
+      setStage(null);
+      setProgress(null);
+    }
+  };
+
+  const saveFromFile = () => runAnalysis(async (selected, signal) => {
+    const { frames, duration } = await getKeyframes(selected, signal);
+    const validKeyframes = frames.filter(frame =>
+      frame.hands.length > 0 &&
+      frame.hands[0].landmarks.length === 21
+    );
+
+    if (validKeyframes.length === 0) {
+      toast({
+        title: "Error",
+        description: "No se detectaron manos en el video",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const sample = {
+      videoBlob: selected,
+      keyframes: validKeyframes,
+      duration: Math.round(duration),
+      signer: signerName.trim() || undefined,
+      dominantHand,
+      videoStartTime: 0 // Se guarda el archivo entero y los keyframes están en tiempo del video
+    };
+
+    let savedName = signName.trim();
+    if (isNewSign) {
+      await signDatabase.saveSign({ name: savedName, samples: [sample] });
+    } else {
+      await signDatabase.addSample(targetSignId, sample);
+      savedName = existingSigns.find(sign => sign.id === targetSignId)?.name || '';
+    }
+
+    // Recordar la mano dominante de la persona y aplicarla a sus tomas anteriores
+    if (sample.signer && signerHands[sample.signer] !== dominantHand) {
+      await signDatabase.setSignerDominantHand(sample.signer, dominantHand);
+    }
+
+    toast({
+      title: isNewSign ? "Seña guardada" : "Toma agregada",
+      description: `"${savedName}" guardada con ${validKeyframes.length} keyframes del video`,
+    });
+
+    setSignName('');
+    await loadExistingSigns();
+    onSignSaved?.();
+  });
+
+  const recognizeFile = () => runAnalysis(async (selected, signal) => {
+    await signDatabase.initialize();
+    const [signs, settings] = await Promise.all([
+      signDatabase.getSignCandidates(),
+      signDatabase.getLibrarySettings()
+    ]);
+    const candidates = signs.filter(sign => sign.samples.some(sample => sample.keyframeCount > 0));
+
+    if (candidates.length === 0) {
+      toast({
+        title: "No hay señas para comparar",
+        description: "Graba algunas señas primero para poder compararlas",
+      });
+      return;
+    }
+
+    const { frames } = await getKeyframes(selected, signal);
+
+    setStage('comparing');
+    setProgress({ done: 0, total: 0 });
+    const found = await recognizeVideoKeyframes(
+      frames,
+      candidates,
+      comparisonOptionsFromSettings(settings),
+      setProgress,
+      signal
+    );
+    setRecognitions(found);
+    setCues(found.filter(recognition => recognition.match).map(recognition => toCue(recognition, recognition.match!.signName)));
+
+    toast({
+      title: "Análisis completado",
+      description: `${found.filter(recognition => recognition.match).length} de ${found.length} segmentos reconocidos`,
+    });
+  });
+
+  // Segmentos sin coincidencia que todavía no se agregaron como subtítulo
+  const unmatched = recognitions.filter(recognition =>
+    !recognition.match && !cues.some(cue => cue.id === recognition.id)
+  );
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div className="text-center space-y-2">
+        <h2 className="text-2xl font-bold bg-gradient-tech bg-clip-text text-transparent">
+          Analizar archivo de video
+        </h2>
+        <p className="text-muted-foreground">
+          Crea tomas o reconoce señas a partir de videos mp4 o webm existentes
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="video-file">Archivo de video</Label>
+        <Input
+          id="video-file"
+          type="file"
+          accept={ACCEPTED_VIDEO_TYPES}
+          onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+          disabled={isBusy}
+        />
+      </div>
+
+      {previewUrl && recognitions.length === 0 && (
+        <video
+          src={previewUrl}
+          controls
+          className="w-full max-h-80 rounded-lg bg-black"
+        />
+      )}
+
+      {stage && progress && (
+        <div className="space-y-2">
+          <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} />
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>{STAGE_LABELS[stage]} · {progress.done} / {progress.total}</span>
+            <Button variant="outline" size="sm" onClick={() => abortRef.current?.abort()}>
+              <Square className="w-4 h-4 mr-2" />
+              Cancelar
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Tabs defaultValue="create" className="space-y-4">
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="create">Crear toma</TabsTrigger>
+          <TabsTrigger value="recognize">Reconocer señas</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="create" className="space-y-4">
+          <Select value={targetSignId} onValueChange={setTargetSignId} disabled={isBusy}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NEW_SIGN}>Nueva seña</SelectItem>
+              {existingSigns.map(sign => (
+                <SelectItem key={sign.id} value={sign.id}>
+                  Otra toma de "{sign.name}" ({sign.samples.length} toma{sign.samples.length !== 1 ? 's' : ''})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {isNewSign && (
+            <Input
+              placeholder="Nombre de la seña (ej: fiebre, hola, gracias)"
+              value={signName}
+              onChange={(e) => setSignName(e.target.value)}
+              disabled={isBusy}
+            />
+          )}
+
+          <div className="flex gap-3">
+            <Input
+              placeholder="Persona que realiza la seña (opcional)"
+              value={signerName}
+              onChange={(e) => handleSignerChange(e.target.value)}
+              disabled={isBusy}
+            />
+            <Select
+              value={dominantHand}
+              onValueChange={(value) => setDominantHand(value as DominantHand)}
+              disabled={isBusy}
+            >
+              <SelectTrigger className="w-40" aria-label="Mano dominante">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="right">{dominantHandLabel('right')}</SelectItem>
+                <SelectItem value="left">{dominantHandLabel('left')}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button
+            onClick={saveFromFile}
+            disabled={!file || isBusy || (isNewSign && !signName.trim())}
+            className="w-full"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            Procesar y guardar toma
+          </Button>
+        </TabsContent>
+
+        <TabsContent value="recognize" className="space-y-4">
+          <Button onClick={recognizeFile} disabled={!file || isBusy} className="w-full">
+            <Search className="w-4 h-4 mr-2" />
+            Reconocer señas del video
+          </Button>
+
+          {file && recognitions.length > 0 && (
+            <SubtitleEditor
+              video={file}
+              cues={cues}
+              onCuesChange={setCues}
+              fileName={file.name.replace(/\.[^.]+$/, '')}
+            />
+          )}
+
+          {unmatched.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-muted-foreground">Segmentos sin coincidencia</h3>
+              {unmatched.map(recognition => (
+                <div key={recognition.id} className="flex justify-between items-center p-2 rounded-lg border bg-muted/30">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-mono text-muted-foreground">
+                      {formatVideoTime(recognition.startTime)}–{formatVideoTime(recognition.endTime)}
+                    </span>
+                    {recognition.results[0] && (
+                      <span className="text-sm text-muted-foreground">
+                        ¿{recognition.results[0].signName}? {(recognition.results[0].similarity * 100).toFixed(1)}%
+                      </span>
+                    )}
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setCues(prev => [...prev, toCue(recognition, recognition.results[0]?.signName ?? '')]
+                      .sort((a, b) => a.startTime - b.startTime))}
+                    title="Agregar como subtítulo"
+                  >
+                    <Plus className="w-3 h-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {!isBusy && file && recognitions.length === 0 && (
+            <p className="text-center text-sm text-muted-foreground">
+              <FileVideo className="w-4 h-4 inline mr-1" />
+              Los segmentos se detectan por las pausas y la entrada y salida de las manos
+            </p>
+          )}
+        </TabsContent>
+      </Tabs>
+    </Card>
+  );
+};
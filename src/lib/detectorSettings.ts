@@ -0,0 +1,50 @@
+import { DEFAULT_HAND_DETECTOR_OPTIONS, HandDetectorOptions } from './mediapipe';
+
+// Se guarda en localStorage y no en la biblioteca: depende de la cámara y la luz de cada equipo
+const STORAGE_KEY = 'handDetectorOptions';
+
+type DetectorOptionsListener = (options: HandDetectorOptions) => void;
+
+const listeners = new Set<DetectorOptionsListener>();
+
+/**
+ * Lee las opciones del detector guardadas en este equipo
+ */
+export function loadDetectorOptions(): HandDetectorOptions {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return {
+      ...DEFAULT_HAND_DETECTOR_OPTIONS,
+      ...saved,
+      smoothing: { ...DEFAULT_HAND_DETECTOR_OPTIONS.smoothing, ...saved.smoothing }
+    };
+  } catch (error) {
+    console.error('Opciones del detector inválidas, se usan las predeterminadas:', error);
+    return { ...DEFAULT_HAND_DETECTOR_OPTIONS };
+  }
+}
+
+/**
+ * Guarda las opciones y avisa a los detectores activos para que se reconfiguren
+ */
+export function saveDetectorOptions(options: HandDetectorOptions): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+  listeners.forEach(listener => listener(options));
+}
+
+export function resetDetectorOptions(): HandDetectorOptions {
+  localStorage.removeItem(STORAGE_KEY);
+  const options = { ...DEFAULT_HAND_DETECTOR_OPTIONS };
+  listeners.forEach(listener => listener(options));
+  return options;
+}
+
+/**
+ * Suscribe un detector a los cambios de opciones; devuelve la función para cancelar
+ */
+export function subscribeDetectorOptions(listener: DetectorOptionsListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,225 @@
+import { ComparisonOptions, SignCandidate, hasKeyframes, signComparisonService } from './signComparison';
+import { DEFAULT_MATCHER_ID } from './signMatchers';
+
+export const NO_MATCH_LABEL = 'Sin coincidencia';
+
+/**
+ * Resultado de reconocer una toma con el resto de la biblioteca (leave-one-out)
+ */
+export interface EvaluationPrediction {
+  signId: string;
+  signName: string;
+  sampleId: string;
+  predictedSignId: string | null; // null si ninguna seña superó el umbral
+  topSignIds: string[];
+  similarity: number;
+  evaluable: boolean; // false si la seña no tiene otras tomas con las que compararse
+}
+
+export interface SignMetrics {
+  signId: string;
+  signName: string;
+  support: number; // Tomas evaluables de la seña
+  predicted: number; // Veces que se predijo esta seña
+  truePositives: number;
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface ConfusionCell {
+  actualSignId: string;
+  actualName: string;
+  predictedSignId: string | null;
+  predictedName: string;
+  count: number;
+}
+
+export interface EvaluationReport {
+  matcherId: string;
+  aggregation: string;
+  evaluatedAt: Date;
+  totalQueries: number;
+  evaluableQueries: number;
+  top1Accuracy: number;
+  top3Accuracy: number;
+  falseAcceptRate: number; // Aceptaciones de una seña equivocada sobre todas las consultas
+  perSign: SignMetrics[];
+  confusion: ConfusionCell[];
+  predictions: EvaluationPrediction[];
+}
+
+export interface EvaluationProgress {
+  done: number;
+  total: number;
+}
+
+const ratio = (value: number, total: number): number => total > 0 ? value / total : 0;
+
+/**
+ * Validación cruzada leave-one-out: cada toma se reconoce contra la biblioteca sin ella
+ */
+export async function evaluateLibrary(
+  signs: SignCandidate[],
+  options: ComparisonOptions = {},
+  onProgress?: (progress: EvaluationProgress) => void,
+  signal?: AbortSignal
+): Promise<EvaluationReport> {
+  const queries = signs.flatMap(sign =>
+    sign.samples
+      .filter(hasKeyframes)
+      .map(sample => ({ sign, sample }))
+  );
+  const predictions: EvaluationPrediction[] = [];
+
+  for (const { sign, sample } of queries) {
+    if (signal?.aborted) throw new DOMException('Evaluación cancelada', 'AbortError');
+
+    const candidates = signs.map(candidate => candidate.id === sign.id
+      ? { ...candidate, samples: candidate.samples.filter(other => other.id !== sample.id) }
+      : candidate
+    );
+    const evaluable = candidates.some(candidate =>
+      candidate.id === sign.id && candidate.samples.some(other => other.keyframeCount > 0)
+    );
+
+    const results = await signComparisonService.compareWithDatabase(
+      sample.keyframes,
+      candidates,
+      { ...options, dominantHand: sample.dominantHand }
+    );
+    const top = results[0];
+
+    predictions.push({
+      signId: sign.id,
+      signName: sign.name,
+      sampleId: sample.id,
+      predictedSignId: top?.isMatch ? top.signId : null,
+      topSignIds: results.slice(0, 3).map(result => result.signId),
+      similarity: top?.similarity ?? 0,
+      evaluable
+    });
+
+    onProgress?.({ done: predictions.length, total: queries.length });
+    // Ceder el hilo para que la interfaz pueda repintar el progreso
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  return buildReport(signs, predictions, options);
+}
+
+/**
+ * Calcula las métricas agregadas a partir de las predicciones individuales
+ */
+export function buildReport(
+  signs: SignCandidate[],
+  predictions: EvaluationPrediction[],
+  options: ComparisonOptions = {}
+): EvaluationReport {
+  const evaluable = predictions.filter(prediction => prediction.evaluable);
+  const names = new Map(signs.map(sign => [sign.id, sign.name]));
+
+  const top1 = evaluable.filter(prediction => prediction.topSignIds[0] === prediction.signId).length;
+  const top3 = evaluable.filter(prediction => prediction.topSignIds.includes(prediction.signId)).length;
+  const falseAccepts = predictions.filter(prediction =>
+    prediction.predictedSignId !== null && prediction.predictedSignId !== prediction.signId
+  ).length;
+
+  const perSign: SignMetrics[] = signs.map(sign => {
+    const support = evaluable.filter(prediction => prediction.signId === sign.id).length;
+    const predicted = predictions.filter(prediction => prediction.predictedSignId === sign.id).length;
+    const truePositives = predictions.filter(prediction =>
+      prediction.signId === sign.id && prediction.predictedSignId === sign.id
+    ).length;
+
+    return {
+      signId: sign.id,
+      signName: sign.name,
+      support,
+      predicted,
+      truePositives,
+      precision: predicted > 0 ? truePositives / predicted : null,
+      recall: support > 0 ? truePositives / support : null
+    };
+  });
+
+  const confusionCounts = new Map<string, ConfusionCell>();
+  predictions.forEach(prediction => {
+    const key = `${prediction.signId}|${prediction.predictedSignId ?? ''}`;
+    const cell = confusionCounts.get(key) ?? {
+      actualSignId: prediction.signId,
+      actualName: prediction.signName,
+      predictedSignId: prediction.predictedSignId,
+      predictedName: prediction.predictedSignId
+        ? names.get(prediction.predictedSignId) ?? prediction.predictedSignId
+        : NO_MATCH_LABEL,
+      count: 0
+    };
+    cell.count++;
+    confusionCounts.set(key, cell);
+  });
+
+  return {
+    matcherId: options.matcherId ?? DEFAULT_MATCHER_ID,
+    aggregation: options.aggregation ?? 'best',
+    evaluatedAt: new Date(),
+    totalQueries: predictions.length,
+    evaluableQueries: evaluable.length,
+    top1Accuracy: ratio(top1, evaluable.length),
+    top3Accuracy: ratio(top3, evaluable.length),
+    falseAcceptRate: ratio(falseAccepts, predictions.length),
+    perSign,
+    confusion: Array.from(confusionCounts.values()),
+    predictions
+  };
+}
+
+const csvValue = (value: string | number | null): string => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRow = (values: Array<string | number | null>): string => values.map(csvValue).join(',');
+
+/**
+ * Exporta el informe como CSV: resumen, métricas por seña y matriz de confusión
+ */
+export function evaluationToCSV(report: EvaluationReport): string {
+  const rows: string[] = [
+    csvRow(['metrica', 'valor']),
+    csvRow(['algoritmo', report.matcherId]),
+    csvRow(['combinacion_tomas', report.aggregation]),
+    csvRow(['consultas', report.totalQueries]),
+    csvRow(['consultas_evaluables', report.evaluableQueries]),
+    csvRow(['exactitud_top1', report.top1Accuracy]),
+    csvRow(['exactitud_top3', report.top3Accuracy]),
+    csvRow(['tasa_falsa_aceptacion', report.falseAcceptRate]),
+    '',
+    csvRow(['sena', 'tomas_evaluables', 'predicciones', 'aciertos', 'precision', 'recall']),
+    ...report.perSign.map(metrics => csvRow([
+      metrics.signName,
+      metrics.support,
+      metrics.predicted,
+      metrics.truePositives,
+      metrics.precision,
+      metrics.recall
+    ])),
+    ''
+  ];
+
+  // Matriz de confusión: filas = seña real, columnas = seña predicha
+  const columns = [...report.perSign.map(metrics => metrics.signId), null];
+  const countFor = (actual: string, predicted: string | null) =>
+    report.confusion.find(cell => cell.actualSignId === actual && cell.predictedSignId === predicted)?.count ?? 0;
+
+  rows.push(csvRow(['real \\ predicha', ...report.perSign.map(metrics => metrics.signName), NO_MATCH_LABEL]));
+  report.perSign.forEach(metrics => {
+    rows.push(csvRow([metrics.signName, ...columns.map(column => countFor(metrics.signId, column))]));
+  });
+
+  return rows.join('\n');
+}
+
+export function evaluationToJSON(report: EvaluationReport): string {
+  return JSON.stringify(report, null, 2);
+}
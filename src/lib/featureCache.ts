@@ -0,0 +1,104 @@
+import type { SignSample } from './indexeddb';
+import { DEFAULT_DOMINANT_HAND, DominantHand, orientSequence } from './handedness';
+import {
+  FEATURE_EXTRACTOR_VERSION,
+  FeatureGroups,
+  FeatureMatrix,
+  FeatureOptions,
+  PackedFeatureGroups,
+  extractFeatureGroups,
+  hasBodyReference,
+  hasWorldLandmarks,
+  toFeatureMatrix
+} from './signFeatures';
+
+interface MotionMatrices {
+  trajectory: FeatureMatrix;
+  velocity: FeatureMatrix;
+  acceleration: FeatureMatrix;
+}
+
+/**
+ * Características precalculadas de una toma, orientada como diestra y normalizada.
+ * La forma usa los landmarks métricos si la toma los tiene (y se guarda también la de
+ * imagen para consultas sin ellos); el movimiento se guarda respecto del encuadre y,
+ * si la toma tiene pose, también respecto del cuerpo.
+ */
+export interface SampleFeatureCache {
+  id: string; // Id de la toma
+  signId: string;
+  version: number; // FEATURE_EXTRACTOR_VERSION con la que se calcularon
+  dominantHand: DominantHand;
+  worldLandmarks: boolean;
+  confidence: Float32Array;
+  shape: FeatureMatrix;
+  imageShape?: FeatureMatrix; // Solo si worldLandmarks
+  frameMotion: MotionMatrices;
+  bodyMotion?: MotionMatrices;
+}
+
+const toMotion = (groups: FeatureGroups): MotionMatrices => ({
+  trajectory: toFeatureMatrix(groups.trajectory),
+  velocity: toFeatureMatrix(groups.velocity),
+  acceleration: toFeatureMatrix(groups.acceleration)
+});
+
+/**
+ * Calcula las características de una toma para guardarlas junto a la seña
+ */
+export function buildSampleFeatures(
+  signId: string,
+  sample: Pick<SignSample, 'id' | 'keyframes' | 'dominantHand'>
+): SampleFeatureCache {
+  const dominantHand = sample.dominantHand ?? DEFAULT_DOMINANT_HAND;
+  const frames = orientSequence(sample.keyframes, dominantHand);
+  const worldLandmarks = hasWorldLandmarks(frames);
+
+  const frameGroups = extractFeatureGroups(frames, { worldLandmarks });
+  const bodyGroups = hasBodyReference(frames)
+    ? extractFeatureGroups(frames, { worldLandmarks, bodyRelative: true })
+    : null;
+  const imageGroups = worldLandmarks ? extractFeatureGroups(frames) : null;
+
+  return {
+    id: sample.id,
+    signId,
+    version: FEATURE_EXTRACTOR_VERSION,
+    dominantHand,
+    worldLandmarks,
+    confidence: Float32Array.from(frameGroups.confidence),
+    shape: toFeatureMatrix(frameGroups.shape),
+    ...(imageGroups && { imageShape: toFeatureMatrix(imageGroups.shape) }),
+    frameMotion: toMotion(frameGroups),
+    ...(bodyGroups && { bodyMotion: toMotion(bodyGroups) })
+  };
+}
+
+/**
+ * Indica si la caché corresponde al extractor actual y a la orientación actual de la toma
+ */
+export function isFeatureCacheCurrent(
+  cache: SampleFeatureCache | undefined,
+  sample: Pick<SignSample, 'dominantHand'>
+): cache is SampleFeatureCache {
+  return cache !== undefined
+    && cache.version === FEATURE_EXTRACTOR_VERSION
+    && cache.dominantHand === (sample.dominantHand ?? DEFAULT_DOMINANT_HAND);
+}
+
+/**
+ * Grupos guardados para las opciones de una comparación, sin copiarlos, o null si la
+ * caché no los tiene (landmarks métricos o pose que la toma no tiene)
+ */
+export function cachedFeatureGroups(
+  cache: SampleFeatureCache,
+  options: Omit<FeatureOptions, 'weights'>
+): PackedFeatureGroups | null {
+  const shape = options.worldLandmarks
+    ? (cache.worldLandmarks ? cache.shape : undefined)
+    : (cache.imageShape ?? cache.shape);
+  const motion = options.bodyRelative ? cache.bodyMotion : cache.frameMotion;
+  if (!shape || !motion) return null;
+
+  return { shape, ...motion, confidence: cache.confidence };
+}
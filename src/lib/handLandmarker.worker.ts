@@ -0,0 +1,181 @@
+/// <reference lib="webworker" />
+import {
+  FaceLandmarker,
+  FilesetResolver,
+  HandLandmarker,
+  HandLandmarkerResult,
+  NormalizedLandmark,
+  PoseLandmarker
+} from '@mediapipe/tasks-vision';
+
+/**
+ * Opciones del HandLandmarker que pueden cambiarse en caliente
+ */
+export interface LandmarkerOptions {
+  modelPath: string;
+  runningMode: 'VIDEO' | 'IMAGE';
+  numHands: number;
+  minHandDetectionConfidence: number;
+  minHandPresenceConfidence: number;
+  minTrackingConfidence: number;
+  pose: boolean; // Ejecutar también el detector de pose
+  face: boolean; // Ejecutar también el detector de rostro
+  poseModelPath: string;
+  faceModelPath: string;
+}
+
+// Subconjunto de la malla facial que se envía y guarda: nariz, frente, mentón,
+// extremos de los ojos, comisuras y centro de los labios
+export const FACE_KEYPOINT_INDICES = [1, 10, 152, 33, 263, 61, 291, 13, 14];
+
+export type HandWorkerRequest =
+  | { type: 'init'; wasmPath: string; options: LandmarkerOptions }
+  | { type: 'setOptions'; id: number; options: LandmarkerOptions }
+  | { type: 'detect'; frame: ImageBitmap | VideoFrame; timestamp: number };
+
+export type HandWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'configured'; id: number; error?: string }
+  | {
+      type: 'result';
+      result: HandLandmarkerResult;
+      pose?: NormalizedLandmark[];
+      face?: NormalizedLandmark[];
+      timestamp: number;
+      inferenceMs: number;
+    }
+  | { type: 'error'; message: string };
+
+declare const self: DedicatedWorkerGlobalScope;
+
+let vision: Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>> | null = null;
+let handLandmarker: HandLandmarker | null = null;
+let poseLandmarker: PoseLandmarker | null = null;
+let faceLandmarker: FaceLandmarker | null = null;
+let runningMode: LandmarkerOptions['runningMode'] = 'VIDEO';
+let bodyConfig = ''; // Opciones con las que se crearon los detectores de pose y rostro
+// Las detecciones esperan a que termine una reconfiguración en curso
+let configuring: Promise<void> = Promise.resolve();
+
+/**
+ * Crea o libera los detectores de pose y rostro según las opciones
+ */
+async function configureBodyLandmarkers(options: LandmarkerOptions): Promise<void> {
+  const nextConfig = JSON.stringify([options.pose, options.face, options.poseModelPath, options.faceModelPath, options.runningMode]);
+  if (nextConfig === bodyConfig) return;
+  bodyConfig = '';
+
+  poseLandmarker?.close();
+  faceLandmarker?.close();
+  poseLandmarker = null;
+  faceLandmarker = null;
+
+  if (options.pose) {
+    poseLandmarker = await PoseLandmarker.createFromOptions(vision!, {
+      baseOptions: { modelAssetPath: options.poseModelPath },
+      runningMode: options.runningMode,
+      numPoses: 1
+    });
+  }
+  if (options.face) {
+    faceLandmarker = await FaceLandmarker.createFromOptions(vision!, {
+      baseOptions: { modelAssetPath: options.faceModelPath },
+      runningMode: options.runningMode,
+      numFaces: 1
+    });
+  }
+  bodyConfig = nextConfig;
+}
+
+const toTaskOptions = (options: LandmarkerOptions) => ({
+  baseOptions: {
+    modelAssetPath: options.modelPath
+  },
+  numHands: options.numHands,
+  runningMode: options.runningMode,
+  minHandDetectionConfidence: options.minHandDetectionConfidence,
+  minHandPresenceConfidence: options.minHandPresenceConfidence,
+  minTrackingConfidence: options.minTrackingConfidence
+});
+
+const post = (message: HandWorkerResponse) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<HandWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'init':
+      try {
+        vision = await FilesetResolver.forVisionTasks(message.wasmPath);
+        handLandmarker = await HandLandmarker.createFromOptions(vision, toTaskOptions(message.options));
+        await configureBodyLandmarkers(message.options);
+        runningMode = message.options.runningMode;
+        post({ type: 'ready' });
+      } catch (error) {
+        post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+      }
+      break;
+
+    case 'setOptions':
+      configuring = configuring.then(async () => {
+        try {
+          if (!handLandmarker) throw new Error('HandLandmarker no inicializado');
+          await handLandmarker.setOptions(toTaskOptions(message.options));
+          await configureBodyLandmarkers(message.options);
+          runningMode = message.options.runningMode;
+          post({ type: 'configured', id: message.id });
+        } catch (error) {
+          post({ type: 'configured', id: message.id, error: error instanceof Error ? error.message : String(error) });
+        }
+      });
+      break;
+
+    case 'detect':
+      try {
+        await configuring;
+        if (!handLandmarker) throw new Error('HandLandmarker no inicializado');
+
+        const start = performance.now();
+        const video = runningMode === 'VIDEO';
+        const result = video
+          ? handLandmarker.detectForVideo(message.frame, message.timestamp)
+          : handLandmarker.detect(message.frame);
+
+        let pose: NormalizedLandmark[] | undefined;
+        if (poseLandmarker) {
+          const poseResult = video
+            ? poseLandmarker.detectForVideo(message.frame, message.timestamp)
+            : poseLandmarker.detect(message.frame);
+          pose = poseResult.landmarks[0];
+          poseResult.close();
+        }
+
+        let face: NormalizedLandmark[] | undefined;
+        if (faceLandmarker) {
+          const faceResult = video
+            ? faceLandmarker.detectForVideo(message.frame, message.timestamp)
+            : faceLandmarker.detect(message.frame);
+          face = faceResult.faceLandmarks[0] && FACE_KEYPOINT_INDICES.map(index => faceResult.faceLandmarks[0][index]);
+        }
+
+        post({
+          type: 'result',
+          result: {
+            landmarks: result.landmarks,
+            worldLandmarks: result.worldLandmarks,
+            handedness: result.handedness,
+            handednesses: result.handednesses
+          },
+          pose,
+          face,
+          timestamp: message.timestamp,
+          inferenceMs: performance.now() - start
+        });
+      } catch (error) {
+        post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+      } finally {
+        message.frame.close();
+      }
+      break;
+  }
+};
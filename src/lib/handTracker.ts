@@ -0,0 +1,100 @@
+import { FrameData, HandKeypoint, HandLandmarks } from './mediapipe';
+import { HandSlot, slotForLabel } from './handedness';
+
+const SLOTS: HandSlot[] = ['dominant', 'nonDominant'];
+
+const LABEL_WEIGHT = 0.2; // Costo de contradecir una etiqueta con confianza total
+const UNKNOWN_LABEL_SCORE = 1; // Confianza asumida en grabaciones sin puntaje de etiqueta
+const MAX_GAP_FRAMES = 15; // Frames que se recuerda la última posición de una mano ausente
+
+export type SlottedHands = Partial<Record<HandSlot, HandLandmarks>>;
+
+export interface SlottedFrame {
+  timestamp: number;
+  slots: SlottedHands;
+  pose?: FrameData['pose'];
+  face?: FrameData['face'];
+}
+
+interface SlotState {
+  wrist: HandKeypoint | null;
+  missingFrames: number;
+}
+
+const distance = (a: HandKeypoint, b: HandKeypoint): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Asigna las manos de frames consecutivos a ranuras persistentes (dominante / no dominante)
+ * combinando la etiqueta de MediaPipe, su confianza y la continuidad de la posición de la muñeca.
+ * Espera frames ya orientados con orientSequence.
+ */
+export class HandSlotTracker {
+  private state: Record<HandSlot, SlotState> = this.initialState();
+
+  private initialState(): Record<HandSlot, SlotState> {
+    return {
+      dominant: { wrist: null, missingFrames: 0 },
+      nonDominant: { wrist: null, missingFrames: 0 }
+    };
+  }
+
+  private cost(hand: HandLandmarks, slot: HandSlot): number {
+    const labelSlot = slotForLabel(hand.handedness);
+    const labelCost = labelSlot && labelSlot !== slot
+      ? LABEL_WEIGHT * (hand.handednessScore ?? UNKNOWN_LABEL_SCORE)
+      : 0;
+
+    const { wrist, missingFrames } = this.state[slot];
+    const continuityCost = wrist && missingFrames <= MAX_GAP_FRAMES ? distance(hand.landmarks[0], wrist) : 0;
+
+    return labelCost + continuityCost;
+  }
+
+  assign(hands: HandLandmarks[]): SlottedHands {
+    const valid = hands.filter(hand => hand.landmarks.length === 21).slice(0, SLOTS.length);
+
+    // Con dos ranuras basta con probar todas las asignaciones posibles
+    const options: SlottedHands[] = valid.length === 0
+      ? [{}]
+      : valid.length === 1
+        ? SLOTS.map(slot => ({ [slot]: valid[0] }))
+        : [
+            { dominant: valid[0], nonDominant: valid[1] },
+            { dominant: valid[1], nonDominant: valid[0] }
+          ];
+
+    const totalCost = (option: SlottedHands) =>
+      SLOTS.reduce((sum, slot) => sum + (option[slot] ? this.cost(option[slot]!, slot) : 0), 0);
+
+    // Ante empate (sin historial ni etiquetas) se conserva el orden: primero la ranura dominante
+    const best = options.reduce((chosen, option) => totalCost(option) < totalCost(chosen) ? option : chosen);
+
+    SLOTS.forEach(slot => {
+      const hand = best[slot];
+      if (hand) {
+        this.state[slot] = { wrist: hand.landmarks[0], missingFrames: 0 };
+      } else {
+        this.state[slot].missingFrames++;
+      }
+    });
+
+    return best;
+  }
+
+  reset(): void {
+    this.state = this.initialState();
+  }
+}
+
+/**
+ * Asigna ranuras estables a las manos de toda una secuencia
+ */
+export function trackHandSlots(frames: FrameData[]): SlottedFrame[] {
+  const tracker = new HandSlotTracker();
+  return frames.map(frame => ({
+    timestamp: frame.timestamp,
+    slots: tracker.assign(frame.hands),
+    pose: frame.pose,
+    face: frame.face
+  }));
+}
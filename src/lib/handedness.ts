@@ -0,0 +1,73 @@
+import { FrameData } from './mediapipe';
+
+export type DominantHand = 'right' | 'left';
+
+export const DEFAULT_DOMINANT_HAND: DominantHand = 'right';
+
+// MediaPipe asume imágenes espejadas (cámara selfie); como los frames se procesan sin
+// espejar, la mano derecha real de quien hace la seña llega etiquetada como 'Left'
+const MEDIAPIPE_LABELS: Record<DominantHand, string> = { right: 'Left', left: 'Right' };
+
+export type HandSlot = 'dominant' | 'nonDominant';
+
+const swapLabel = (label: string): string =>
+  label === 'Left' ? 'Right' : label === 'Right' ? 'Left' : label;
+
+// Pares izquierda/derecha de la pose de MediaPipe (ojos, orejas, boca, brazos, piernas)
+const POSE_MIRROR_PAIRS: Array<[number, number]> = [
+  [1, 4], [2, 5], [3, 6], [7, 8], [9, 10], [11, 12], [13, 14], [15, 16],
+  [17, 18], [19, 20], [21, 22], [23, 24], [25, 26], [27, 28], [29, 30], [31, 32]
+];
+
+// Pares dentro del subconjunto de FACE_KEYPOINT_INDICES (comisuras de ojos y de boca)
+const FACE_MIRROR_PAIRS: Array<[number, number]> = [[3, 4], [5, 6]];
+
+/**
+ * Refleja una lista de puntos e intercambia los pares izquierda/derecha
+ */
+function mirrorPoints<T extends { x: number }>(points: T[], pairs: Array<[number, number]>): T[] {
+  const mirrored = points.map(point => ({ ...point, x: 1 - point.x }));
+  pairs.forEach(([a, b]) => {
+    if (a < mirrored.length && b < mirrored.length) {
+      [mirrored[a], mirrored[b]] = [mirrored[b], mirrored[a]];
+    }
+  });
+  return mirrored;
+}
+
+/**
+ * Refleja horizontalmente las manos (y la pose y el rostro, si hay) de un frame e intercambia sus etiquetas
+ */
+export function mirrorFrame(frame: FrameData): FrameData {
+  return {
+    ...frame,
+    hands: frame.hands.map(hand => ({
+      ...hand,
+      landmarks: hand.landmarks.map(landmark => ({ ...landmark, x: 1 - landmark.x })),
+      ...(hand.worldLandmarks && {
+        worldLandmarks: hand.worldLandmarks.map(landmark => ({ ...landmark, x: -landmark.x }))
+      }),
+      handedness: swapLabel(hand.handedness)
+    })),
+    ...(frame.pose && { pose: mirrorPoints(frame.pose, POSE_MIRROR_PAIRS) }),
+    ...(frame.face && { face: mirrorPoints(frame.face, FACE_MIRROR_PAIRS) })
+  };
+}
+
+/**
+ * Lleva una secuencia a la orientación de una persona diestra, reflejando las de personas zurdas
+ */
+export function orientSequence(frames: FrameData[], dominantHand: DominantHand = DEFAULT_DOMINANT_HAND): FrameData[] {
+  return dominantHand === 'left' ? frames.map(mirrorFrame) : frames;
+}
+
+/**
+ * Ranura que corresponde a la etiqueta de MediaPipe en un frame ya orientado (null si no se sabe)
+ */
+export function slotForLabel(label: string): HandSlot | null {
+  if (label === MEDIAPIPE_LABELS.right) return 'dominant';
+  if (label === MEDIAPIPE_LABELS.left) return 'nonDominant';
+  return null;
+}
+
+export const dominantHandLabel = (hand: DominantHand): string => hand === 'left' ? 'Zurda' : 'Diestra';
@@ -1,61 +1,696 @@
 import { FrameData } from './mediapipe';
+import { LATEST_VERSION, MigrationError, StoredSignRecord, applyMigrations, dryRunMigrations } from './migrations';
+import { DEFAULT_DOMINANT_HAND, DominantHand } from './handedness';
+import { SampleAggregation, SignCandidate, SignThreshold } from './signComparison';
+import { DEFAULT_MATCHER_ID } from './signMatchers';
+import { DEFAULT_FEATURE_WEIGHTS, FEATURE_EXTRACTOR_VERSION, FeatureWeights } from './signFeatures';
+import { SampleFeatureCache, buildSampleFeatures, isFeatureCacheCurrent } from './featureCache';
+import { SORT_INDEXES, SignQuery, signQueryFilters, withSearchFields } from './signSearch';
+import type { SubtitleCue } from './subtitles';
 
-export interface SignRecord {
+export interface SignSample {
   id: string;
-  name: string;
-  videoBlob: Blob;
   keyframes: FrameData[];
   duration: number;
+  signer?: string;
+  dominantHand?: DominantHand; // Sin valor se asume diestra
+  videoStartTime?: number; // Timestamp de los keyframes en el segundo 0 del video; sin valor, el del primer keyframe
+  capturedAt: Date;
+}
+
+/**
+ * Toma nueva con su video; al guardarla el video pasa al almacén 'videos'
+ */
+export type NewSignSample = Omit<SignSample, 'id' | 'capturedAt'> & { videoBlob: Blob };
+
+/**
+ * Video de una toma, guardado fuera de la seña para leerlo solo al reproducir
+ */
+export interface SampleVideo {
+  id: string; // Id de la toma
+  signId: string;
+  blob: Blob;
+}
+
+/**
+ * Datos descriptivos de una seña, editables después de guardarla
+ */
+export interface SignMetadata {
+  name: string;
+  aliases?: string[]; // Otras palabras que se traducen a esta seña (sinónimos, plurales)
+  description?: string;
+  category?: string;
+  tags?: string[]; // En minúsculas; se indexan una por una para filtrar
+  region?: string; // Región o variante dialectal
+  notes?: string;
+}
+
+export interface SignRecord extends SignMetadata {
+  id: string;
+  samples: SignSample[];
+  threshold?: SignThreshold;
+  createdAt: Date;
+}
+
+/**
+ * Toma resumida para listar: sin keyframes
+ */
+export interface SampleSummary {
+  id: string;
+  duration: number;
+  signer?: string;
+  dominantHand?: DominantHand;
+  keyframeCount: number;
+}
+
+/**
+ * Seña sin keyframes, guardada aparte para que la biblioteca liste cientos de señas
+ * sin leerlos; los keyframes se cargan con getSign al reproducir o comparar
+ */
+export interface SignSummary extends SignMetadata {
+  id: string;
+  samples: SampleSummary[];
+  threshold?: SignThreshold;
+  createdAt: Date;
+}
+
+const summarizeSign = ({ samples, ...sign }: SignRecord): SignSummary => ({
+  id: sign.id,
+  name: sign.name,
+  createdAt: sign.createdAt,
+  ...(sign.threshold && { threshold: sign.threshold }),
+  ...(sign.aliases && { aliases: sign.aliases }),
+  ...(sign.description && { description: sign.description }),
+  ...(sign.category && { category: sign.category }),
+  ...(sign.tags && { tags: sign.tags }),
+  ...(sign.region && { region: sign.region }),
+  ...(sign.notes && { notes: sign.notes }),
+  samples: samples.map(sample => ({
+    id: sample.id,
+    duration: sample.duration,
+    ...(sample.signer && { signer: sample.signer }),
+    ...(sample.dominantHand && { dominantHand: sample.dominantHand }),
+    keyframeCount: sample.keyframes.length
+  }))
+});
+
+export interface TranscriptAlternative {
+  signId: string;
+  signName: string;
+  similarity: number;
+}
+
+export interface TranscriptWord {
+  id: string;
+  text: string;
+  signId?: string;
+  similarity?: number;
+  alternatives: TranscriptAlternative[]; // Mejores candidatos para corregir la palabra
+  recognizedAt: Date;
+}
+
+export interface TranscriptRecord {
+  id: string;
+  words: TranscriptWord[];
+  text: string;
+  createdAt: Date;
+}
+
+/**
+ * Video de la última sesión continua con sus subtítulos editados; se conserva al
+ * cambiar de pestaña o recargar hasta que se inicia otra sesión
+ */
+export interface SessionRecording {
+  id: string; // Siempre CURRENT_SESSION_ID: solo se guarda una sesión
+  video: Blob;
+  cues: SubtitleCue[];
+  recordedAt: Date;
+}
+
+const CURRENT_SESSION_ID = 'current';
+
+/**
+ * Ajustes guardados junto con la biblioteca de señas
+ */
+export interface LibrarySettings {
+  matcherId: string;
+  sampleAggregation: SampleAggregation;
+  dominantHand: DominantHand; // Mano dominante de quien usa el detector
+  signerHands: Record<string, DominantHand>; // Mano dominante de cada persona que graba
+  featureWeights: FeatureWeights;
+}
+
+export const DEFAULT_LIBRARY_SETTINGS: LibrarySettings = {
+  matcherId: DEFAULT_MATCHER_ID,
+  sampleAggregation: 'best',
+  dominantHand: DEFAULT_DOMINANT_HAND,
+  signerHands: {},
+  featureWeights: DEFAULT_FEATURE_WEIGHTS
+};
+
+export interface SignBackup {
+  id?: number;
   createdAt: Date;
+  fromVersion: number;
+  toVersion: number;
+  records: StoredSignRecord[]; // Tal como estaban guardados en fromVersion
+  videos?: SampleVideo[]; // Desde la v6 los videos están fuera de las señas
+}
+
+/**
+ * Otra pestaña mantiene abierta la versión anterior de la base y no deja actualizarla
+ */
+export class DatabaseBlockedError extends Error {
+  constructor(public readonly fromVersion: number, public readonly toVersion: number) {
+    super(`La biblioteca está abierta en otra pestaña con la versión v${fromVersion}; ciérrala para actualizar a v${toVersion}`);
+    this.name = 'DatabaseBlockedError';
+  }
 }
 
+/**
+ * Cierra la conexión si otra pestaña necesita actualizar el esquema, para no bloquearla
+ */
+const closeOnVersionChange = (db: IDBDatabase): IDBDatabase => {
+  db.onversionchange = () => db.close();
+  return db;
+};
+
 class SignDatabase {
   private dbName = 'SignLanguageDB';
-  private version = 1;
+  private backupDbName = 'SignLanguageDB_backups';
+  private maxBackups = 3;
+  private version = LATEST_VERSION;
   private db: IDBDatabase | null = null;
+  private initPromise: Promise<void> | null = null;
+  private lastBackupId: number | undefined;
+  private featureRebuild: Promise<number> | null = null;
+  private summaryRebuild: Promise<number> | null = null;
 
   async initialize(): Promise<void> {
+    if (this.db) return;
+
+    // Reutilizar la apertura en curso para no migrar dos veces en paralelo
+    if (!this.initPromise) {
+      this.initPromise = this.open()
+        .then(() => {
+          this.scheduleSummaryRebuild();
+          this.scheduleFeatureRebuild();
+        })
+        .finally(() => {
+          this.initPromise = null;
+        });
+    }
+    return this.initPromise;
+  }
+
+  /**
+   * Inicia en segundo plano el recálculo de características desactualizadas, sin esperarlo
+   */
+  private scheduleFeatureRebuild(): void {
+    if (this.featureRebuild) return;
+
+    this.featureRebuild = this.rebuildFeatureCache()
+      .then(rebuilt => {
+        if (rebuilt > 0) console.log(`Características recalculadas para ${rebuilt} tomas`);
+        return rebuilt;
+      })
+      .catch(error => {
+        console.error('Error recalculando características:', error);
+        return 0;
+      })
+      .finally(() => {
+        this.featureRebuild = null;
+      });
+  }
+
+  /**
+   * Inicia en segundo plano la creación de los resúmenes que falten, sin esperarla
+   */
+  private scheduleSummaryRebuild(): void {
+    if (this.summaryRebuild) return;
+
+    this.summaryRebuild = this.rebuildSignSummaries()
+      .catch(error => {
+        console.error('Error recreando los resúmenes de señas:', error);
+        return 0;
+      })
+      .finally(() => {
+        this.summaryRebuild = null;
+      });
+  }
+
+  private async open(): Promise<void> {
+    const storedVersion = await this.getStoredVersion();
+    if (storedVersion > 0 && storedVersion < this.version) {
+      await this.prepareUpgrade(storedVersion);
+    }
+
     return new Promise((resolve, reject) => {
       const request = indexedDB.open(this.dbName, this.version);
+      let upgradeFrom = 0;
+      let blocked = false;
 
-      request.onerror = () => reject(request.error);
+      // Sin esto la apertura queda pendiente hasta que la otra pestaña se cierre
+      request.onblocked = (event) => {
+        blocked = true;
+        reject(new DatabaseBlockedError(event.oldVersion, event.newVersion ?? this.version));
+      };
+      request.onerror = () => {
+        if (upgradeFrom > 0) {
+          reject(new MigrationError(
+            `La migración de v${upgradeFrom} a v${this.version} falló y se revirtió: ${request.error?.message}`,
+            upgradeFrom,
+            this.version,
+            this.lastBackupId
+          ));
+          return;
+        }
+        reject(request.error);
+      };
       request.onsuccess = () => {
+        // La otra pestaña se cerró después de avisar el bloqueo: se reintenta con initialize
+        if (blocked) {
+          request.result.close();
+          return;
+        }
+
         this.db = request.result;
+        this.db.onversionchange = () => {
+          this.db?.close();
+          this.db = null;
+        };
         resolve();
       };
 
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
-        
-        if (!db.objectStoreNames.contains('signs')) {
-          const store = db.createObjectStore('signs', { keyPath: 'id' });
-          store.createIndex('name', 'name', { unique: false });
-          store.createIndex('createdAt', 'createdAt', { unique: false });
+        upgradeFrom = event.oldVersion;
+        applyMigrations(db, request.transaction!, event.oldVersion, event.newVersion ?? this.version);
+      };
+    });
+  }
+
+  /**
+   * Obtiene la versión actual de la base de datos sin crearla (0 si no existe).
+   * Abre sin versión en lugar de usar indexedDB.databases, que algunos navegadores no tienen.
+   */
+  private getStoredVersion(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName);
+      let missing = false;
+
+      // Solo se pide actualizar al abrir sin versión si la base no existía: se cancela la creación
+      request.onupgradeneeded = () => {
+        missing = true;
+        request.transaction!.abort();
+      };
+      request.onerror = (event) => {
+        if (!missing) {
+          reject(request.error);
+          return;
         }
+        event.preventDefault();
+        resolve(0);
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        const { version } = db;
+        db.close();
+        resolve(version);
+      };
+    });
+  }
+
+  /**
+   * Respalda los registros actuales y valida las migraciones antes de actualizar.
+   * Las características y los resúmenes no se respaldan: se recalculan al abrir la base.
+   */
+  private async prepareUpgrade(fromVersion: number): Promise<void> {
+    const { records, videos } = await this.readRawRecords(fromVersion);
+
+    this.lastBackupId = await this.saveBackup({
+      createdAt: new Date(),
+      fromVersion,
+      toVersion: this.version,
+      records,
+      ...(videos.length > 0 && { videos })
+    });
+    console.log(`Respaldo #${this.lastBackupId} creado con ${records.length} señas y ${videos.length} videos antes de migrar`);
+
+    const report = dryRunMigrations(records, fromVersion, this.version);
+    if (report.errors.length > 0) {
+      console.error('Verificación de migración fallida:', report);
+      throw new MigrationError(
+        `La verificación de la migración de v${fromVersion} a v${this.version} encontró ${report.errors.length} problema(s); no se modificaron los datos`,
+        fromVersion,
+        this.version,
+        this.lastBackupId
+      );
+    }
+  }
+
+  /**
+   * Lee las señas y los videos tal como están guardados en la versión actual
+   */
+  private readRawRecords(version: number): Promise<{ records: StoredSignRecord[]; videos: SampleVideo[] }> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, version);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const db = closeOnVersionChange(request.result);
+        const storeNames = ['signs', 'videos'].filter(name => db.objectStoreNames.contains(name));
+        if (storeNames.length === 0) {
+          db.close();
+          resolve({ records: [], videos: [] });
+          return;
+        }
+
+        const transaction = db.transaction(storeNames, 'readonly');
+        const requests = new Map(storeNames.map(name => [name, transaction.objectStore(name).getAll()]));
+
+        transaction.onerror = () => {
+          db.close();
+          reject(transaction.error);
+        };
+        transaction.oncomplete = () => {
+          db.close();
+          resolve({
+            records: requests.get('signs')?.result ?? [],
+            videos: requests.get('videos')?.result ?? []
+          });
+        };
+      };
+    });
+  }
+
+  private openBackupDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.backupDbName, 1);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(closeOnVersionChange(request.result));
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore('backups', { keyPath: 'id', autoIncrement: true });
+      };
+    });
+  }
+
+  /**
+   * Guarda un respaldo y conserva solo los más recientes
+   */
+  private async saveBackup(backup: SignBackup): Promise<number> {
+    const db = await this.openBackupDatabase();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['backups'], 'readwrite');
+      const store = transaction.objectStore('backups');
+      const request = store.add(backup);
+      let backupId: number;
+
+      request.onsuccess = () => {
+        backupId = request.result as number;
+        const keysRequest = store.getAllKeys();
+        keysRequest.onsuccess = () => {
+          const keys = keysRequest.result;
+          keys.slice(0, Math.max(0, keys.length - this.maxBackups)).forEach(key => store.delete(key));
+        };
+      };
+      transaction.oncomplete = () => {
+        db.close();
+        resolve(backupId);
+      };
+      transaction.onerror = () => {
+        db.close();
+        reject(transaction.error);
+      };
+    });
+  }
+
+  /**
+   * Respaldo creado antes de una actualización de esquema; no requiere que la
+   * biblioteca se haya abierto, para poder recuperarlo si la migración falló
+   */
+  async getBackup(id: number): Promise<SignBackup | null> {
+    const db = await this.openBackupDatabase();
+
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(['backups'], 'readonly').objectStore('backups').get(id);
+
+      request.onerror = () => {
+        db.close();
+        reject(request.error);
+      };
+      request.onsuccess = () => {
+        db.close();
+        resolve(request.result || null);
       };
     });
   }
 
-  async saveSign(sign: Omit<SignRecord, 'id' | 'createdAt'>): Promise<string> {
+  /**
+   * Separa el video de una toma nueva del resto de sus datos
+   */
+  private createSample({ videoBlob, ...sample }: NewSignSample, signId: string): { sample: SignSample; video: SampleVideo } {
+    const id = crypto.randomUUID();
+    return {
+      sample: { ...sample, id, capturedAt: new Date() },
+      video: { id, signId, blob: videoBlob }
+    };
+  }
+
+  /**
+   * Escribe la seña con sus campos de búsqueda y su resumen dentro de la transacción
+   */
+  private writeSign(transaction: IDBTransaction, sign: SignRecord, mode: 'add' | 'put' = 'put'): SignRecord {
+    const record = withSearchFields(sign);
+    transaction.objectStore('signs')[mode](record);
+    transaction.objectStore('summaries').put(summarizeSign(record));
+    return record;
+  }
+
+  async saveSign(sign: { name: string; samples: NewSignSample[] }): Promise<string> {
     if (!this.db) throw new Error('Database not initialized');
 
     const id = crypto.randomUUID();
+    const created = sign.samples.map(sample => this.createSample(sample, id));
     const signRecord: SignRecord = {
-      ...sign,
       id,
+      name: sign.name,
+      samples: created.map(({ sample }) => sample),
       createdAt: new Date()
     };
+    // Antes de abrir la transacción: si los keyframes no sirven, no se guarda nada
+    const features = created.map(({ sample }) => buildSampleFeatures(id, sample));
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(['signs'], 'readwrite');
-      const store = transaction.objectStore('signs');
-      const request = store.add(signRecord);
+      const transaction = this.db!.transaction(['signs', 'summaries', 'videos', 'features'], 'readwrite');
+      this.writeSign(transaction, signRecord, 'add');
+      created.forEach(({ video }) => transaction.objectStore('videos').put(video));
+      features.forEach(cache => transaction.objectStore('features').put(cache));
 
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve(id);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve(id);
+    });
+  }
+
+  /**
+   * Guarda una seña completa conservando su id (usado al importar paquetes).
+   * Escribe los videos recibidos y las características de sus tomas, y borra los
+   * datos de tomas que ya no tiene.
+   */
+  async putSign(sign: SignRecord, videos: Map<string, Blob> = new Map()): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    // Los keyframes de un paquete pueden venir mal formados: se procesan antes de escribir
+    const features = sign.samples.map(sample => buildSampleFeatures(sign.id, sample));
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['signs', 'summaries', 'videos', 'features'], 'readwrite');
+      const videoStore = transaction.objectStore('videos');
+      const featureStore = transaction.objectStore('features');
+      const sampleIds = new Set(sign.samples.map(sample => sample.id));
+
+      this.writeSign(transaction, sign);
+      sign.samples.forEach(sample => {
+        const blob = videos.get(sample.id);
+        if (blob) videoStore.put({ id: sample.id, signId: sign.id, blob });
+      });
+      features.forEach(cache => featureStore.put(cache));
+
+      [videoStore, featureStore].forEach(store => {
+        const keysRequest = store.index('signId').getAllKeys(sign.id);
+        keysRequest.onsuccess = () => {
+          keysRequest.result
+            .filter(key => !sampleIds.has(key as string))
+            .forEach(key => store.delete(key));
+        };
+      });
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+  }
+
+  /**
+   * Agrega una nueva toma de referencia a una seña existente
+   */
+  async addSample(signId: string, sample: NewSignSample): Promise<string> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const { sample: newSample, video } = this.createSample(sample, signId);
+    const features = buildSampleFeatures(signId, newSample);
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['signs', 'summaries', 'videos', 'features'], 'readwrite');
+      const request = transaction.objectStore('signs').get(signId);
+
+      request.onsuccess = () => {
+        const sign: SignRecord | undefined = request.result;
+        if (!sign) {
+          transaction.abort();
+          reject(new Error(`Sign ${signId} not found`));
+          return;
+        }
+
+        this.writeSign(transaction, { ...sign, samples: [...sign.samples, newSample] });
+        transaction.objectStore('videos').put(video);
+        transaction.objectStore('features').put(features);
+      };
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve(newSample.id);
     });
   }
 
+  /**
+   * Actualiza los datos descriptivos de una seña conservando su id, fecha y tomas
+   */
+  async updateSign(signId: string, changes: Partial<SignMetadata>): Promise<SignRecord> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['signs', 'summaries'], 'readwrite');
+      const request = transaction.objectStore('signs').get(signId);
+      let updated: SignRecord;
+
+      request.onsuccess = () => {
+        const sign: SignRecord | undefined = request.result;
+        if (!sign) {
+          transaction.abort();
+          reject(new Error(`Sign ${signId} not found`));
+          return;
+        }
+
+        updated = this.writeSign(transaction, {
+          ...sign,
+          ...changes,
+          id: sign.id,
+          createdAt: sign.createdAt,
+          samples: sign.samples
+        });
+      };
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve(updated);
+    });
+  }
+
+  /**
+   * Combina los cambios con el umbral guardado de la seña; undefined borra ese valor
+   */
+  async updateSignThreshold(signId: string, changes: Partial<SignThreshold>): Promise<SignThreshold> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['signs', 'summaries'], 'readwrite');
+      const request = transaction.objectStore('signs').get(signId);
+      let threshold: SignThreshold;
+
+      request.onsuccess = () => {
+        const sign: SignRecord | undefined = request.result;
+        if (!sign) {
+          transaction.abort();
+          reject(new Error(`Sign ${signId} not found`));
+          return;
+        }
+
+        threshold = Object.fromEntries(
+          Object.entries({ ...sign.threshold, ...changes }).filter(([, value]) => value !== undefined)
+        );
+        this.writeSign(transaction, { ...sign, threshold });
+      };
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve(threshold);
+    });
+  }
+
+  /**
+   * Elimina una toma; si era la última, elimina la seña completa
+   */
+  async deleteSample(signId: string, sampleId: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['signs', 'summaries', 'videos', 'features'], 'readwrite');
+      const request = transaction.objectStore('signs').get(signId);
+
+      request.onsuccess = () => {
+        const sign: SignRecord | undefined = request.result;
+        if (!sign) return;
+
+        const samples = sign.samples.filter(sample => sample.id !== sampleId);
+        if (samples.length > 0) {
+          this.writeSign(transaction, { ...sign, samples });
+        } else {
+          transaction.objectStore('signs').delete(signId);
+          transaction.objectStore('summaries').delete(signId);
+        }
+        transaction.objectStore('videos').delete(sampleId);
+        transaction.objectStore('features').delete(sampleId);
+      };
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+  }
+
+  /**
+   * Resumen de todas las señas, sin keyframes. Para listar nombres, alias, personas o
+   * tomas; las que aún no tienen resumen se resumen al leerlas.
+   */
+  async getSignSummaries(): Promise<SignSummary[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['signs', 'summaries'], 'readonly');
+      const signStore = transaction.objectStore('signs');
+      const signKeysRequest = signStore.getAllKeys();
+      const summariesRequest = transaction.objectStore('summaries').getAll();
+      const summaries = new Map<IDBValidKey, SignSummary>();
+
+      summariesRequest.onsuccess = () => {
+        (summariesRequest.result as SignSummary[]).forEach(summary => summaries.set(summary.id, summary));
+        signKeysRequest.result
+          .filter(key => !summaries.has(key))
+          .forEach(key => {
+            const request = signStore.get(key);
+            request.onsuccess = () => summaries.set(key, summarizeSign(request.result));
+          });
+      };
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve(
+        signKeysRequest.result.map(key => summaries.get(key)).filter((summary): summary is SignSummary => !!summary)
+      );
+    });
+  }
+
+  /**
+   * Todas las señas con sus keyframes; los videos se leen aparte con getSampleVideo.
+   * Para listar basta con getSignSummaries.
+   */
   async getAllSigns(): Promise<SignRecord[]> {
     if (!this.db) throw new Error('Database not initialized');
 
@@ -69,6 +704,115 @@ class SignDatabase {
     });
   }
 
+  /**
+   * Busca señas solo con índices: cada filtro aporta un conjunto de claves, se
+   * intersectan y se recorren en el orden del índice elegido; al final se leen
+   * únicamente los resúmenes de las que coinciden, sin keyframes
+   */
+  async querySigns(query: SignQuery): Promise<SignSummary[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['signs', 'summaries'], 'readonly');
+      const store = transaction.objectStore('signs');
+      const summaryStore = transaction.objectStore('summaries');
+      const filters = signQueryFilters(query);
+      const keySets: Set<IDBValidKey>[] = [];
+      const results: SignSummary[] = [];
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve(results);
+
+      const readOrdered = () => {
+        const matches = (key: IDBValidKey) => keySets.every(keys => keys.has(key));
+        const orderedKeys: IDBValidKey[] = [];
+        const cursorRequest = store
+          .index(SORT_INDEXES[query.sortBy])
+          .openKeyCursor(null, query.direction === 'asc' ? 'next' : 'prev');
+
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (cursor) {
+            if (matches(cursor.primaryKey)) orderedKeys.push(cursor.primaryKey);
+            cursor.continue();
+            return;
+          }
+
+          orderedKeys.forEach((key, position) => {
+            const request = summaryStore.get(key);
+            request.onsuccess = () => {
+              if (request.result) {
+                results[position] = request.result;
+                return;
+              }
+              // Resumen todavía no creado (justo después de actualizar): se arma desde la seña
+              const signRequest = store.get(key);
+              signRequest.onsuccess = () => {
+                results[position] = summarizeSign(signRequest.result);
+              };
+            };
+          });
+        };
+      };
+
+      if (filters.length === 0) {
+        readOrdered();
+        return;
+      }
+
+      let pending = filters.length;
+      filters.forEach(filter => {
+        const request = store.index(filter.index).getAllKeys(filter.range);
+        request.onsuccess = () => {
+          keySets.push(new Set(request.result));
+          if (--pending === 0) readOrdered();
+        };
+      });
+    });
+  }
+
+  /**
+   * Etiquetas y categorías distintas, leídas de sus índices
+   */
+  async getSignFacets(): Promise<{ tags: string[]; categories: string[] }> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['signs'], 'readonly');
+      const store = transaction.objectStore('signs');
+      const facets = { tags: [] as string[], categories: [] as string[] };
+
+      const collectUnique = (indexName: string, target: string[]) => {
+        const request = store.index(indexName).openKeyCursor(null, 'nextunique');
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) return;
+          target.push(String(cursor.key));
+          cursor.continue();
+        };
+      };
+
+      collectUnique('tags', facets.tags);
+      collectUnique('category', facets.categories);
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve(facets);
+    });
+  }
+
+  async countSigns(): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['signs'], 'readonly');
+      const store = transaction.objectStore('signs');
+      const request = store.count();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+    });
+  }
+
   async getSign(id: string): Promise<SignRecord | null> {
     if (!this.db) throw new Error('Database not initialized');
 
@@ -82,18 +826,391 @@ class SignDatabase {
     });
   }
 
+  /**
+   * Video de una toma, o null si no se encuentra
+   */
+  async getSampleVideo(sampleId: string): Promise<Blob | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['videos'], 'readonly');
+      const store = transaction.objectStore('videos');
+      const request = store.get(sampleId);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve((request.result as SampleVideo | undefined)?.blob ?? null);
+    });
+  }
+
+  /**
+   * Señas listas para comparar con sus características precalculadas cuando están al día.
+   * Los keyframes se leen solo para las tomas sin características vigentes, salvo que se
+   * pidan todos (allKeyframes) para usar cada toma como consulta (calibración, evaluación).
+   */
+  async getSignCandidates(allKeyframes = false): Promise<SignCandidate[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['signs', 'summaries', 'features'], 'readonly');
+      const signStore = transaction.objectStore('signs');
+      const signKeysRequest = signStore.getAllKeys();
+      const summariesRequest = transaction.objectStore('summaries').getAll();
+      const featuresRequest = transaction.objectStore('features').index('version').getAll(FEATURE_EXTRACTOR_VERSION);
+      const fullSigns = new Map<string, SignRecord>();
+      let summaries = new Map<string, SignSummary>();
+      let features = new Map<string, SampleFeatureCache>();
+
+      featuresRequest.onsuccess = () => {
+        summaries = new Map((summariesRequest.result as SignSummary[]).map(summary => [summary.id, summary]));
+        features = new Map((featuresRequest.result as SampleFeatureCache[]).map(cache => [cache.id, cache]));
+
+        // Señas sin resumen todavía (justo después de actualizar) o con alguna toma desactualizada
+        (signKeysRequest.result as string[]).forEach(id => {
+          const summary = summaries.get(id);
+          const stale = !summary || allKeyframes
+            || summary.samples.some(sample => !isFeatureCacheCurrent(features.get(sample.id), sample));
+          if (!stale) return;
+
+          const request = signStore.get(id);
+          request.onsuccess = () => fullSigns.set(id, request.result);
+        });
+      };
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => {
+        const signIds = signKeysRequest.result as string[];
+
+        resolve(signIds.map(id => {
+          const fullSign = fullSigns.get(id);
+          const summary = fullSign ? summarizeSign(fullSign) : summaries.get(id)!;
+          const keyframes = new Map(fullSign?.samples.map(sample => [sample.id, sample.keyframes]));
+          return {
+            id: summary.id,
+            name: summary.name,
+            threshold: summary.threshold,
+            samples: summary.samples.map(sample => {
+              const cache = features.get(sample.id);
+              const current = isFeatureCacheCurrent(cache, sample);
+              return {
+                id: sample.id,
+                keyframeCount: sample.keyframeCount,
+                dominantHand: sample.dominantHand,
+                ...((allKeyframes || !current) && { keyframes: keyframes.get(sample.id) }),
+                ...(current && { features: cache })
+              };
+            })
+          };
+        }));
+      };
+    });
+  }
+
+  /**
+   * Guarda las características de una toma si sigue existiendo con la misma orientación
+   * (la toma pudo borrarse o cambiar mientras se calculaban)
+   */
+  private putSampleFeatures(cache: SampleFeatureCache): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['signs', 'features'], 'readwrite');
+      const request = transaction.objectStore('signs').get(cache.signId);
+
+      request.onsuccess = () => {
+        const sign: SignRecord | undefined = request.result;
+        const sample = sign?.samples.find(candidate => candidate.id === cache.id);
+        if (sample && isFeatureCacheCurrent(cache, sample)) {
+          transaction.objectStore('features').put(cache);
+        }
+      };
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+  }
+
+  /**
+   * Ids de las tomas con características de la versión actual del extractor
+   */
+  private getCurrentFeatureIds(): Promise<Set<string>> {
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['features'], 'readonly');
+      const request = transaction.objectStore('features').index('version').getAllKeys(FEATURE_EXTRACTOR_VERSION);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(new Set(request.result as string[]));
+    });
+  }
+
+  /**
+   * Recalcula las características que faltan o son de otra versión del extractor.
+   * Procesa una toma a la vez y cede el hilo entre tomas para no bloquear la interfaz.
+   * Devuelve cuántas tomas se recalcularon.
+   */
+  async rebuildFeatureCache(): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const [signs, currentIds] = await Promise.all([this.getAllSigns(), this.getCurrentFeatureIds()]);
+    const stale = signs.flatMap(sign => sign.samples
+      .filter(sample => !currentIds.has(sample.id))
+      .map(sample => ({ signId: sign.id, sample }))
+    );
+
+    for (const { signId, sample } of stale) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      if (!this.db) return 0;
+
+      await this.putSampleFeatures(buildSampleFeatures(signId, sample));
+    }
+
+    return stale.length;
+  }
+
+  /**
+   * Crea los resúmenes que faltan y borra los de señas que ya no existen.
+   * Devuelve cuántos resúmenes se crearon.
+   */
+  async rebuildSignSummaries(): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['signs', 'summaries'], 'readwrite');
+      const summaryStore = transaction.objectStore('summaries');
+      const signKeysRequest = transaction.objectStore('signs').getAllKeys();
+      const summaryKeysRequest = summaryStore.getAllKeys();
+      let created = 0;
+
+      summaryKeysRequest.onsuccess = () => {
+        const signKeys = new Set(signKeysRequest.result);
+        const summaryKeys = new Set(summaryKeysRequest.result);
+
+        summaryKeys.forEach(key => {
+          if (!signKeys.has(key)) summaryStore.delete(key);
+        });
+
+        // Se leen una por una solo las señas sin resumen
+        signKeys.forEach(key => {
+          if (summaryKeys.has(key)) return;
+          const request = transaction.objectStore('signs').get(key);
+          request.onsuccess = () => {
+            summaryStore.put(summarizeSign(request.result));
+            created++;
+          };
+        });
+      };
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve(created);
+    });
+  }
+
   async deleteSign(id: string): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction(['signs'], 'readwrite');
-      const store = transaction.objectStore('signs');
+      const transaction = this.db!.transaction(['signs', 'summaries', 'videos', 'features'], 'readwrite');
+      transaction.objectStore('signs').delete(id);
+      transaction.objectStore('summaries').delete(id);
+
+      ['videos', 'features'].forEach(storeName => {
+        const store = transaction.objectStore(storeName);
+        const keysRequest = store.index('signId').getAllKeys(id);
+        keysRequest.onsuccess = () => keysRequest.result.forEach(key => store.delete(key));
+      });
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+  }
+
+  async saveTranscript(words: TranscriptWord[]): Promise<string> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const id = crypto.randomUUID();
+    const transcript: TranscriptRecord = {
+      id,
+      words,
+      text: words.map(word => word.text).join(' '),
+      createdAt: new Date()
+    };
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['transcripts'], 'readwrite');
+      const store = transaction.objectStore('transcripts');
+      const request = store.add(transcript);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(id);
+    });
+  }
+
+  async getAllTranscripts(): Promise<TranscriptRecord[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['transcripts'], 'readonly');
+      const store = transaction.objectStore('transcripts');
+      const request = store.index('createdAt').getAll();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve((request.result as TranscriptRecord[]).reverse());
+    });
+  }
+
+  async deleteTranscript(id: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['transcripts'], 'readwrite');
+      const store = transaction.objectStore('transcripts');
       const request = store.delete(id);
 
       request.onerror = () => reject(request.error);
       request.onsuccess = () => resolve();
     });
   }
+
+  async saveSessionRecording(video: Blob, cues: SubtitleCue[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const session: SessionRecording = { id: CURRENT_SESSION_ID, video, cues, recordedAt: new Date() };
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['sessions'], 'readwrite');
+      const request = transaction.objectStore('sessions').put(session);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async getSessionRecording(): Promise<SessionRecording | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['sessions'], 'readonly');
+      const request = transaction.objectStore('sessions').get(CURRENT_SESSION_ID);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result || null);
+    });
+  }
+
+  /**
+   * Guarda los subtítulos editados de la sesión conservando su video
+   */
+  async updateSessionCues(cues: SubtitleCue[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['sessions'], 'readwrite');
+      const store = transaction.objectStore('sessions');
+      const request = store.get(CURRENT_SESSION_ID);
+
+      request.onsuccess = () => {
+        const session: SessionRecording | undefined = request.result;
+        if (session) store.put({ ...session, cues });
+      };
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+  }
+
+  async deleteSessionRecording(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['sessions'], 'readwrite');
+      const request = transaction.objectStore('sessions').delete(CURRENT_SESSION_ID);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async getLibrarySettings(): Promise<LibrarySettings> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['settings'], 'readonly');
+      const store = transaction.objectStore('settings');
+      const request = store.get('library');
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const { key, ...saved } = request.result || {};
+        resolve({
+          ...DEFAULT_LIBRARY_SETTINGS,
+          ...saved,
+          featureWeights: { ...DEFAULT_FEATURE_WEIGHTS, ...saved.featureWeights }
+        });
+      };
+    });
+  }
+
+  /**
+   * Guarda la mano dominante de una persona y la aplica a todas sus tomas grabadas.
+   * Devuelve la cantidad de tomas actualizadas.
+   */
+  async setSignerDominantHand(signer: string, dominantHand: DominantHand): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const settings = await this.getLibrarySettings();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['signs', 'summaries', 'settings', 'features'], 'readwrite');
+      let updated = 0;
+
+      transaction.objectStore('settings').put({
+        ...settings,
+        signerHands: { ...settings.signerHands, [signer]: dominantHand },
+        key: 'library'
+      });
+
+      const request = transaction.objectStore('signs').openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+
+        const sign: SignRecord = cursor.value;
+        if (sign.samples.some(sample => sample.signer === signer)) {
+          try {
+            // La orientación cambia las características precalculadas; se calculan antes de escribir
+            const samples = sign.samples.map(sample => sample.signer === signer ? { ...sample, dominantHand } : sample);
+            const features = samples
+              .filter(sample => sample.signer === signer)
+              .map(sample => buildSampleFeatures(sign.id, sample));
+
+            const orientedSign: SignRecord = { ...sign, samples };
+            cursor.update(orientedSign);
+            transaction.objectStore('summaries').put(summarizeSign(orientedSign));
+            features.forEach(cache => transaction.objectStore('features').put(cache));
+            updated += features.length;
+          } catch (error) {
+            transaction.abort();
+            reject(error);
+            return;
+          }
+        }
+        cursor.continue();
+      };
+
+      transaction.oncomplete = () => resolve(updated);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async saveLibrarySettings(settings: LibrarySettings): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['settings'], 'readwrite');
+      const store = transaction.objectStore('settings');
+      const request = store.put({ ...settings, key: 'library' });
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
 }
 
 export const signDatabase = new SignDatabase();
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { FrameData } from './mediapipe';
+
+/**
+ * Resumen de los keyframes de una toma para revisar su calidad
+ */
+export interface KeyframeStats {
+  frames: number;
+  durationMs: number;
+  framesPerSecond: number;
+  framesWithTwoHands: number;
+  averageHandednessScore: number | null; // Null en tomas grabadas antes de guardar el puntaje
+  framesWithWorldLandmarks: number;
+  framesWithPose: number;
+  framesWithFace: number;
+}
+
+export function computeKeyframeStats(keyframes: FrameData[]): KeyframeStats {
+  const durationMs = keyframes.length > 1
+    ? keyframes[keyframes.length - 1].timestamp - keyframes[0].timestamp
+    : 0;
+  const scores = keyframes.flatMap(frame =>
+    frame.hands.map(hand => hand.handednessScore).filter((score): score is number => score !== undefined)
+  );
+
+  return {
+    frames: keyframes.length,
+    durationMs,
+    framesPerSecond: durationMs > 0 ? ((keyframes.length - 1) * 1000) / durationMs : 0,
+    framesWithTwoHands: keyframes.filter(frame => frame.hands.length >= 2).length,
+    averageHandednessScore: scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null,
+    framesWithWorldLandmarks: keyframes.filter(frame =>
+      frame.hands.length > 0 && frame.hands.every(hand => hand.worldLandmarks)
+    ).length,
+    framesWithPose: keyframes.filter(frame => frame.pose).length,
+    framesWithFace: keyframes.filter(frame => frame.face).length
+  };
+}
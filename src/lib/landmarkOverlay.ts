@@ -0,0 +1,75 @@
+import { FrameData, HandLandmarks } from './mediapipe';
+import type { SignSample } from './indexeddb';
+
+export const HAND_CONNECTIONS: Array<[number, number]> = [
+  [0, 1], [1, 2], [2, 3], [3, 4], // Thumb
+  [0, 5], [5, 6], [6, 7], [7, 8], // Index
+  [0, 9], [9, 10], [10, 11], [11, 12], // Middle
+  [0, 13], [13, 14], [14, 15], [15, 16], // Ring
+  [0, 17], [17, 18], [18, 19], [19, 20], // Pinky
+  [5, 9], [9, 13], [13, 17] // Palm
+];
+
+/**
+ * Timestamp de los keyframes que corresponde al segundo 0 del video de una toma. Las de
+ * la cámara empiezan a grabar con el primer keyframe; las de un archivo guardan el video
+ * entero y sus keyframes ya están en tiempo del video.
+ */
+export function sampleVideoStart(sample: Pick<SignSample, 'keyframes' | 'videoStartTime'>): number {
+  return sample.videoStartTime ?? (sample.keyframes[0]?.timestamp || 0);
+}
+
+/**
+ * Índice del keyframe que corresponde al tiempo actual del video (ms desde el inicio), o -1 sin keyframes
+ */
+export function findKeyframeIndexAt(
+  keyframes: FrameData[],
+  videoTimeMs: number,
+  startTime: number = keyframes[0]?.timestamp || 0
+): number {
+  const relativeTime = videoTimeMs + startTime;
+
+  return keyframes.findIndex((frame, index) => {
+    const nextFrame = keyframes[index + 1];
+    if (!nextFrame) return true;
+    return frame.timestamp <= relativeTime && nextFrame.timestamp > relativeTime;
+  });
+}
+
+/**
+ * Keyframe de una toma que corresponde al tiempo actual de su video (ms desde el inicio)
+ */
+export function findKeyframeAt(
+  sample: Pick<SignSample, 'keyframes' | 'videoStartTime'>,
+  videoTimeMs: number
+): FrameData | undefined {
+  return sample.keyframes[findKeyframeIndexAt(sample.keyframes, videoTimeMs, sampleVideoStart(sample))];
+}
+
+/**
+ * Dibuja los puntos y conexiones de las manos sobre un canvas
+ */
+export function drawHandLandmarks(ctx: CanvasRenderingContext2D, hands: HandLandmarks[], width: number, height: number): void {
+  for (const hand of hands) {
+    const color = hand.handedness === 'Left' ? '#22d3ee' : '#06b6d4';
+
+    for (const landmark of hand.landmarks) {
+      ctx.beginPath();
+      ctx.arc(landmark.x * width, landmark.y * height, 4, 0, 2 * Math.PI);
+      ctx.fillStyle = color;
+      ctx.fill();
+    }
+
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+
+    for (const [start, end] of HAND_CONNECTIONS) {
+      if (hand.landmarks[start] && hand.landmarks[end]) {
+        ctx.beginPath();
+        ctx.moveTo(hand.landmarks[start].x * width, hand.landmarks[start].y * height);
+        ctx.lineTo(hand.landmarks[end].x * width, hand.landmarks[end].y * height);
+        ctx.stroke();
+      }
+    }
+  }
+}
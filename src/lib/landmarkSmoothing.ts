@@ -0,0 +1,158 @@
+import { HandLandmarkerResult, NormalizedLandmark } from '@mediapipe/tasks-vision';
+
+/**
+ * Nivel de suavizado temporal de los landmarks
+ * - off: datos crudos de MediaPipe
+ * - light: poco retraso, pensado para el dibujo en vivo
+ * - strong: elimina más temblor, pensado para los keyframes que se guardan y comparan
+ */
+export type SmoothingLevel = 'off' | 'light' | 'strong';
+
+export interface SmoothingOptions {
+  overlay: SmoothingLevel;
+  keyframes: SmoothingLevel;
+}
+
+export const DEFAULT_SMOOTHING: SmoothingOptions = {
+  overlay: 'light',
+  keyframes: 'strong'
+};
+
+interface OneEuroParams {
+  minCutoff: number; // Hz: menor = más suave en reposo
+  beta: number; // Cuánto sube el corte con la velocidad (menos retraso en movimientos rápidos)
+  derivativeCutoff: number;
+}
+
+const SMOOTHING_PARAMS: Record<Exclude<SmoothingLevel, 'off'>, OneEuroParams> = {
+  light: { minCutoff: 2.0, beta: 0.5, derivativeCutoff: 1.0 },
+  strong: { minCutoff: 0.8, beta: 0.2, derivativeCutoff: 1.0 }
+};
+
+const MAX_MATCH_DISTANCE = 0.15; // Distancia máxima de la muñeca entre frames para seguir la misma mano
+
+const smoothingFactor = (cutoff: number, elapsedSeconds: number): number => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / elapsedSeconds);
+};
+
+/**
+ * Filtro One-Euro (Casiez et al.) para una señal escalar
+ */
+export class OneEuroFilter {
+  private previousValue: number | null = null;
+  private previousDerivative = 0;
+  private previousTime = 0;
+
+  constructor(private readonly params: OneEuroParams) {}
+
+  filter(value: number, timeMs: number): number {
+    if (this.previousValue === null) {
+      this.previousValue = value;
+      this.previousTime = timeMs;
+      return value;
+    }
+
+    const elapsed = (timeMs - this.previousTime) / 1000;
+    if (elapsed <= 0) return this.previousValue;
+
+    const derivative = (value - this.previousValue) / elapsed;
+    const derivativeAlpha = smoothingFactor(this.params.derivativeCutoff, elapsed);
+    this.previousDerivative = derivativeAlpha * derivative + (1 - derivativeAlpha) * this.previousDerivative;
+
+    const cutoff = this.params.minCutoff + this.params.beta * Math.abs(this.previousDerivative);
+    const alpha = smoothingFactor(cutoff, elapsed);
+    this.previousValue = alpha * value + (1 - alpha) * this.previousValue;
+    this.previousTime = timeMs;
+
+    return this.previousValue;
+  }
+}
+
+interface HandTrack {
+  wrist: NormalizedLandmark;
+  filters: OneEuroFilter[]; // x, y, z de cada landmark
+  worldFilters: OneEuroFilter[]; // Lo mismo para los landmarks métricos de la mano
+}
+
+type Point3 = { x: number; y: number; z: number };
+
+const createFilters = (landmarkCount: number, params: OneEuroParams): OneEuroFilter[] =>
+  Array.from({ length: landmarkCount * 3 }, () => new OneEuroFilter(params));
+
+function filterLandmarks<T extends Point3>(landmarks: T[], filters: OneEuroFilter[], timeMs: number): T[] {
+  return landmarks.map((landmark, index) => ({
+    ...landmark,
+    x: filters[index * 3].filter(landmark.x, timeMs),
+    y: filters[index * 3 + 1].filter(landmark.y, timeMs),
+    z: filters[index * 3 + 2].filter(landmark.z, timeMs)
+  }));
+}
+
+/**
+ * Suaviza los landmarks de cada mano entre frames consecutivos, tanto los de imagen como
+ * los métricos. Cada mano se sigue por la posición de su muñeca (las etiquetas de
+ * MediaPipe pueden alternarse entre frames).
+ */
+export class LandmarkSmoother {
+  private tracks: HandTrack[] = [];
+
+  constructor(private level: SmoothingLevel) {}
+
+  setLevel(level: SmoothingLevel): void {
+    if (level === this.level) return;
+    this.level = level;
+    this.reset();
+  }
+
+  smooth(result: HandLandmarkerResult, timeMs: number): HandLandmarkerResult {
+    if (this.level === 'off' || !result.landmarks) return result;
+
+    const params = SMOOTHING_PARAMS[this.level];
+    const available = [...this.tracks];
+
+    const nextTracks = result.landmarks.map((landmarks, handIndex) => {
+      const wrist = landmarks[0];
+      let track: HandTrack | undefined;
+      let bestDistance = MAX_MATCH_DISTANCE;
+
+      available.forEach(candidate => {
+        const distance = Math.hypot(candidate.wrist.x - wrist.x, candidate.wrist.y - wrist.y);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          track = candidate;
+        }
+      });
+
+      if (track) {
+        available.splice(available.indexOf(track), 1);
+      } else {
+        track = {
+          wrist,
+          filters: createFilters(landmarks.length, params),
+          worldFilters: createFilters(landmarks.length, params)
+        };
+      }
+
+      const smoothed = filterLandmarks(landmarks, track.filters, timeMs);
+      const world = result.worldLandmarks?.[handIndex];
+      const smoothedWorld = world ? filterLandmarks(world, track.worldFilters, timeMs) : world;
+      track.wrist = smoothed[0];
+
+      return { track, smoothed, smoothedWorld };
+    });
+
+    // Las manos que no aparecieron en este frame pierden su historial
+    this.tracks = nextTracks.map(({ track }) => track);
+
+    return {
+      ...result,
+      landmarks: nextTracks.map(({ smoothed }) => smoothed),
+      ...(result.worldLandmarks && { worldLandmarks: nextTracks.map(({ smoothedWorld }) => smoothedWorld ?? []) })
+    };
+  }
+
+  reset(): void {
+    this.tracks = [];
+  }
+}
@@ -1,4 +1,6 @@
-import { FilesetResolver, HandLandmarker, HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import type { HandWorkerRequest, HandWorkerResponse, LandmarkerOptions } from './handLandmarker.worker';
+import { DEFAULT_SMOOTHING, LandmarkSmoother, SmoothingOptions } from './landmarkSmoothing';
 
 export interface HandKeypoint {
   x: number;
@@ -6,73 +8,419 @@ export interface HandKeypoint {
   z: number;
 }
 
+/**
+ * Punto de la pose con la visibilidad estimada por MediaPipe
+ */
+export interface BodyKeypoint extends HandKeypoint {
+  visibility?: number;
+}
+
 export interface HandLandmarks {
   landmarks: HandKeypoint[];
+  worldLandmarks?: HandKeypoint[]; // Coordenadas 3D en metros con origen en el centro de la mano
   handedness: string;
+  handednessScore?: number; // Confianza de MediaPipe en la etiqueta (0-1)
 }
 
 export interface FrameData {
   timestamp: number;
   hands: HandLandmarks[];
+  pose?: BodyKeypoint[]; // 33 puntos de la pose de MediaPipe
+  face?: HandKeypoint[]; // Puntos de FACE_KEYPOINT_INDICES, en ese orden
+}
+
+// Índices usados de la pose de MediaPipe
+export const POSE_NOSE = 0;
+export const POSE_LEFT_SHOULDER = 11;
+export const POSE_RIGHT_SHOULDER = 12;
+
+// Índices dentro del subconjunto guardado en FrameData.face
+export const FACE_NOSE_TIP = 0;
+
+export const HAND_MODEL_PATH = '/models/hand_landmarker.task';
+export const POSE_MODEL_PATH = '/models/pose_landmarker_lite.task';
+export const FACE_MODEL_PATH = '/models/face_landmarker.task';
+
+const FRAME_TIMEOUT_MS = 10000; // Sin respuesta en este tiempo se asume que el worker se colgó
+
+/**
+ * Configuración del detector: opciones de MediaPipe más el suavizado de landmarks
+ */
+export interface HandDetectorOptions extends LandmarkerOptions {
+  smoothing: SmoothingOptions;
+}
+
+export const DEFAULT_HAND_DETECTOR_OPTIONS: HandDetectorOptions = {
+  modelPath: HAND_MODEL_PATH,
+  runningMode: 'VIDEO',
+  numHands: 2,
+  minHandDetectionConfidence: 0.3,
+  minHandPresenceConfidence: 0.3,
+  minTrackingConfidence: 0.3,
+  pose: false,
+  face: false,
+  poseModelPath: POSE_MODEL_PATH,
+  faceModelPath: FACE_MODEL_PATH,
+  smoothing: DEFAULT_SMOOTHING
+};
+
+/**
+ * Error cuando faltan los archivos locales de MediaPipe (modelo o runtime WASM)
+ */
+export class MediaPipeAssetError extends Error {
+  constructor(message: string, public readonly asset: 'model' | 'wasm', public readonly path: string) {
+    super(message);
+    this.name = 'MediaPipeAssetError';
+  }
+}
+
+/**
+ * Verifica que un archivo estático exista (el servidor responde index.html para rutas inexistentes)
+ */
+async function assertAssetAvailable(path: string, asset: 'model' | 'wasm', description: string): Promise<void> {
+  let response: Response;
+  try {
+    response = await fetch(path, { method: 'HEAD' });
+  } catch {
+    throw new MediaPipeAssetError(`No se pudo acceder a ${description} (${path})`, asset, path);
+  }
+
+  const contentType = response.headers.get('content-type') || '';
+  if (!response.ok || contentType.includes('text/html')) {
+    throw new MediaPipeAssetError(`Falta ${description}: coloca el archivo en public${path}`, asset, path);
+  }
+}
+
+/**
+ * Métricas de rendimiento del detector, medidas por frame
+ */
+export interface DetectorStats {
+  latencyMs: number; // Desde la captura del frame hasta recibir el resultado
+  averageLatencyMs: number;
+  inferenceMs: number; // Tiempo de detectForVideo dentro del worker
+  droppedFrames: number; // Frames descartados porque el worker estaba ocupado
+  processedFrames: number;
+}
+
+/**
+ * Resultado de un frame en sus distintas versiones: el dibujo en vivo y los keyframes
+ * usan cada uno su nivel de suavizado; raw conserva la salida original para depuración
+ */
+export interface HandDetection {
+  timestamp: number;
+  raw: HandLandmarkerResult;
+  overlay: HandLandmarkerResult;
+  keyframes: HandLandmarkerResult;
+  pose?: BodyKeypoint[]; // Solo si la captura de pose está activada
+  face?: HandKeypoint[]; // Solo si la captura de rostro está activada
 }
 
+export type HandResultsCallback = (results: HandLandmarkerResult, detection: HandDetection) => void;
+export type HandDetectorErrorCallback = (error: Error) => void;
+
 export class HandDetector {
-  private handLandmarker: HandLandmarker | null = null;
-  private onResults: ((results: HandLandmarkerResult) => void) | null = null;
+  private worker: Worker | null = null;
+  private onResults: HandResultsCallback | null = null;
+  private onError: HandDetectorErrorCallback | null = null;
+  private overlaySmoother: LandmarkSmoother;
+  private keyframeSmoother: LandmarkSmoother;
+  private lastDetection: HandDetection | null = null;
+  private options: HandDetectorOptions;
+  private pendingConfiguration: { id: number; resolve: () => void; reject: (error: Error) => void } | null = null;
+  private configurationId = 0;
+  private pendingFrame: { resolve: (detection: HandDetection) => void; reject: (error: Error) => void } | null = null;
   private isProcessing: boolean = false;
   private animationFrameId: number | null = null;
+  private lastVideoTime = -1;
+  private stats: DetectorStats = {
+    latencyMs: 0,
+    averageLatencyMs: 0,
+    inferenceMs: 0,
+    droppedFrames: 0,
+    processedFrames: 0
+  };
+
+  constructor(options: Partial<HandDetectorOptions> = {}) {
+    // El HandLandmarker vive en un Web Worker creado durante initialize()
+    this.options = { ...DEFAULT_HAND_DETECTOR_OPTIONS, ...options };
+    this.overlaySmoother = new LandmarkSmoother(this.options.smoothing.overlay);
+    this.keyframeSmoother = new LandmarkSmoother(this.options.smoothing.keyframes);
+  }
+
+  public getOptions(): HandDetectorOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Cambia la configuración sin detener la cámara: el suavizado se aplica al instante y
+   * las opciones de MediaPipe se reconfiguran dentro del worker. Si faltan los modelos
+   * de las nuevas opciones se rechaza sin cambiar nada.
+   */
+  public async setOptions(changes: Partial<HandDetectorOptions>): Promise<void> {
+    const next: HandDetectorOptions = { ...this.options, ...changes };
+    const landmarkerChanged = (Object.keys(changes) as Array<keyof HandDetectorOptions>)
+      .some(key => key !== 'smoothing' && changes[key] !== this.options[key]);
+
+    if (landmarkerChanged) await this.assertModelsAvailable(next);
+
+    this.options = next;
+    this.overlaySmoother.setLevel(next.smoothing.overlay);
+    this.keyframeSmoother.setLevel(next.smoothing.keyframes);
+
+    if (!landmarkerChanged || !this.worker) return;
+
+    this.pendingConfiguration?.reject(new Error('Reconfiguración reemplazada por otra más reciente'));
+    await new Promise<void>((resolve, reject) => {
+      const id = ++this.configurationId;
+      this.pendingConfiguration = { id, resolve, reject };
+      this.postToWorker({ type: 'setOptions', id, options: this.toLandmarkerOptions(next) });
+    });
+  }
 
-  constructor() {
-    // HandLandmarker instance will be created during initialize()
+  private async assertModelsAvailable(options: HandDetectorOptions): Promise<void> {
+    await assertAssetAvailable(options.modelPath, 'model', 'el modelo de detección de manos');
+    if (options.pose) await assertAssetAvailable(options.poseModelPath, 'model', 'el modelo de detección de pose');
+    if (options.face) await assertAssetAvailable(options.faceModelPath, 'model', 'el modelo de detección de rostro');
   }
 
-  public async initialize(videoElement: HTMLVideoElement, onResultsCallback: (results: HandLandmarkerResult) => void): Promise<void> {
+  private toLandmarkerOptions(options: HandDetectorOptions): LandmarkerOptions {
+    const { smoothing, ...landmarker } = options;
+    const absolute = (path: string) => new URL(path, location.origin).href;
+    return {
+      ...landmarker,
+      modelPath: absolute(options.modelPath),
+      poseModelPath: absolute(options.poseModelPath),
+      faceModelPath: absolute(options.faceModelPath)
+    };
+  }
+
+  /**
+   * Inicia el worker y el bucle de detección. onErrorCallback se llama si el worker
+   * falla después de inicializarse; en ese caso el detector queda sin worker.
+   */
+  public async initialize(
+    videoElement: HTMLVideoElement,
+    onResultsCallback: HandResultsCallback,
+    onErrorCallback?: HandDetectorErrorCallback
+  ): Promise<void> {
     this.onResults = onResultsCallback;
+    this.onError = onErrorCallback ?? null;
+    await this.startWorker();
+
+    // Start detection loop
+    this.detectHands(videoElement);
+  }
+
+  /**
+   * Crea el worker e inicializa MediaPipe dentro de él
+   */
+  private async startWorker(): Promise<void> {
+    this.overlaySmoother.reset();
+    this.keyframeSmoother.reset();
+
+    await this.assertModelsAvailable(this.options);
+    await assertAssetAvailable(`${__MEDIAPIPE_WASM_PATH__}/vision_wasm_internal.wasm`, 'wasm', 'el runtime WASM de MediaPipe');
 
     try {
-      // Initialize MediaPipe Tasks Vision
-      const vision = await FilesetResolver.forVisionTasks(
-        "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm"
-      );
-      
-      this.handLandmarker = await HandLandmarker.createFromOptions(vision, {
-        baseOptions: { 
-          modelAssetPath: "/models/hand_landmarker.task"
-        },
-        numHands: 2,
-        runningMode: "VIDEO",
-        minHandDetectionConfidence: 0.3,
-        minHandPresenceConfidence: 0.3,
-        minTrackingConfidence: 0.3
+      // Worker clásico: MediaPipe carga su script WASM con importScripts
+      this.worker = new Worker(new URL('./handLandmarker.worker.ts', import.meta.url), { type: 'classic' });
+
+      // Initialize MediaPipe Tasks Vision dentro del worker
+      await new Promise<void>((resolve, reject) => {
+        this.worker!.onmessage = (event: MessageEvent<HandWorkerResponse>) => {
+          if (event.data.type === 'ready') resolve();
+          if (event.data.type === 'error') reject(new Error(event.data.message));
+        };
+        this.worker!.onerror = (event) => reject(new Error(event.message));
+        this.postToWorker({
+          type: 'init',
+          wasmPath: new URL(__MEDIAPIPE_WASM_PATH__, location.origin).href,
+          options: this.toLandmarkerOptions(this.options)
+        });
       });
-      
-      console.log('HandDetector inicializado correctamente con tasks-vision');
-      
-      // Start detection loop
-      this.detectHands(videoElement);
-      
+
+      this.worker.onmessage = this.handleWorkerMessage;
+      this.worker.onerror = (event) => this.handleWorkerFailure(event.message || 'error desconocido');
+      this.worker.onmessageerror = () => this.handleWorkerFailure('no se pudo leer un mensaje del worker');
+      console.log('HandDetector inicializado correctamente con tasks-vision en Web Worker');
     } catch (error) {
       console.error('Error inicializando HandDetector:', error);
+      this.terminateWorker();
       throw new Error(`No se pudo inicializar MediaPipe HandLandmarker: ${error.message}`);
     }
   }
 
-  private detectHands = (videoElement: HTMLVideoElement) => {
-    if (videoElement.readyState >= 2 && this.handLandmarker && !this.isProcessing) {
-      this.isProcessing = true;
-      try {
-        const results = this.handLandmarker.detectForVideo(videoElement, performance.now());
-        if (this.onResults) {
-          this.onResults(results);
+  /**
+   * Detecta las manos en el cuadro actual del video y espera el resultado, sin descartar
+   * frames. Pensado para procesar archivos: timestamp es el tiempo del video en ms y debe
+   * crecer entre llamadas. Inicializa el worker en la primera llamada.
+   * Si se cancela con signal o el worker no responde a tiempo, el worker se descarta
+   * (la siguiente llamada crea otro) y la promesa se rechaza.
+   */
+  public async detectFrame(videoElement: HTMLVideoElement, timestamp: number, signal?: AbortSignal): Promise<HandDetection> {
+    const cancelled = () => new DOMException('Detección cancelada', 'AbortError');
+    if (signal?.aborted) throw cancelled();
+    if (!this.worker) await this.startWorker();
+    if (signal?.aborted) throw cancelled();
+
+    const frame = await this.captureFrame(videoElement, timestamp);
+    return new Promise<HandDetection>((resolve, reject) => {
+      const timeoutId = setTimeout(
+        () => this.terminateWorker(new Error(`El detector no respondió en ${FRAME_TIMEOUT_MS / 1000} s`)),
+        FRAME_TIMEOUT_MS
+      );
+      const onAbort = () => this.terminateWorker(cancelled());
+      const settle = () => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pendingFrame = {
+        resolve: (detection) => {
+          settle();
+          resolve(detection);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
         }
-      } catch (error) {
-        console.error('Error detecting hands:', error);
-      } finally {
-        this.isProcessing = false;
+      };
+      this.isProcessing = true;
+      this.postToWorker({ type: 'detect', frame, timestamp }, [frame]);
+    });
+  }
+
+  private async captureFrame(videoElement: HTMLVideoElement, timestamp: number): Promise<VideoFrame | ImageBitmap> {
+    return typeof VideoFrame !== 'undefined'
+      ? new VideoFrame(videoElement, { timestamp: Math.round(timestamp * 1000) })
+      : await createImageBitmap(videoElement);
+  }
+
+  private postToWorker(message: HandWorkerRequest, transfer: Transferable[] = []): void {
+    this.worker?.postMessage(message, transfer);
+  }
+
+  private handleWorkerMessage = (event: MessageEvent<HandWorkerResponse>) => {
+    const message = event.data;
+
+    if (message.type === 'result') {
+      this.isProcessing = false;
+
+      const detection: HandDetection = {
+        timestamp: message.timestamp,
+        raw: message.result,
+        overlay: this.overlaySmoother.smooth(message.result, message.timestamp),
+        keyframes: this.keyframeSmoother.smooth(message.result, message.timestamp),
+        pose: message.pose?.map(({ x, y, z, visibility }) => ({ x, y, z, visibility })),
+        face: message.face?.map(({ x, y, z }) => ({ x, y, z }))
+      };
+      this.lastDetection = detection;
+
+      // Frames de un archivo: el timestamp es del video, así que no cuenta para la latencia
+      if (this.pendingFrame) {
+        this.pendingFrame.resolve(detection);
+        this.pendingFrame = null;
+        return;
+      }
+
+      const latency = performance.now() - message.timestamp;
+      this.stats = {
+        ...this.stats,
+        latencyMs: latency,
+        // Media móvil exponencial para una lectura estable en la UI
+        averageLatencyMs: this.stats.processedFrames === 0
+          ? latency
+          : this.stats.averageLatencyMs * 0.9 + latency * 0.1,
+        inferenceMs: message.inferenceMs,
+        processedFrames: this.stats.processedFrames + 1
+      };
+
+      if (this.onResults) {
+        this.onResults(detection.overlay, detection);
       }
+    } else if (message.type === 'configured') {
+      // Las respuestas de reconfiguraciones ya reemplazadas se ignoran
+      if (message.id !== this.pendingConfiguration?.id) return;
+      if (message.error) {
+        this.pendingConfiguration?.reject(new Error(message.error));
+      } else {
+        this.pendingConfiguration?.resolve();
+      }
+      this.pendingConfiguration = null;
+    } else if (message.type === 'error') {
+      this.isProcessing = false;
+      console.error('Error detecting hands:', message.message);
+      this.pendingFrame?.reject(new Error(message.message));
+      this.pendingFrame = null;
     }
-    
+  }
+
+  /**
+   * El worker dejó de funcionar: se descarta, se rechazan las solicitudes pendientes
+   * y se avisa a quien lo usa. El bucle de detección sigue pero ignora los frames.
+   */
+  private handleWorkerFailure = (message: string) => {
+    const error = new Error(`El worker de MediaPipe falló: ${message}`);
+    console.error(error.message);
+    this.terminateWorker(error);
+    this.onError?.(error);
+  }
+
+  private detectHands = async (videoElement: HTMLVideoElement) => {
     this.animationFrameId = requestAnimationFrame(() => this.detectHands(videoElement));
+
+    if (videoElement.readyState < 2 || !this.worker || videoElement.currentTime === this.lastVideoTime) return;
+
+    // Back-pressure: si el worker sigue ocupado se descarta este frame
+    if (this.isProcessing) {
+      this.stats.droppedFrames++;
+      return;
+    }
+
+    this.isProcessing = true;
+    this.lastVideoTime = videoElement.currentTime;
+
+    try {
+      const timestamp = performance.now();
+      const frame = await this.captureFrame(videoElement, timestamp);
+
+      if (!this.worker) {
+        frame.close();
+        return;
+      }
+      this.postToWorker({ type: 'detect', frame, timestamp }, [frame]);
+    } catch (error) {
+      this.isProcessing = false;
+      console.error('Error capturando frame:', error);
+    }
+  }
+
+  /**
+   * Último resultado recibido, incluida la salida cruda sin suavizar
+   */
+  public getLastDetection(): HandDetection | null {
+    return this.lastDetection;
+  }
+
+  /**
+   * Devuelve las métricas de latencia más recientes
+   */
+  public getStats(): DetectorStats {
+    return { ...this.stats };
+  }
+
+  private terminateWorker(reason: Error = new Error('HandDetector detenido')): void {
+    if (this.worker) {
+      // terminate() libera el HandLandmarker y la memoria WASM del worker
+      this.worker.terminate();
+      this.worker = null;
+    }
+    this.pendingConfiguration?.reject(reason);
+    this.pendingConfiguration = null;
+    this.pendingFrame?.reject(reason);
+    this.pendingFrame = null;
+    this.isProcessing = false;
   }
 
   public stop(): void {
@@ -80,10 +428,19 @@ export class HandDetector {
       cancelAnimationFrame(this.animationFrameId);
       this.animationFrameId = null;
     }
-    if (this.handLandmarker) {
-      this.handLandmarker.close();
-      this.handLandmarker = null;
-    }
+    this.terminateWorker();
+  }
+
+  /**
+   * Arma el keyframe de una detección: manos suavizadas más pose y rostro si se capturaron
+   */
+  public static extractFrameData(detection: HandDetection, timestamp: number): FrameData {
+    return {
+      timestamp,
+      hands: detection.keyframes.landmarks?.length ? HandDetector.extractHandData(detection.keyframes) : [],
+      ...(detection.pose && { pose: detection.pose }),
+      ...(detection.face && { face: detection.face })
+    };
   }
 
   public static extractHandData(results: HandLandmarkerResult): HandLandmarks[] {
@@ -96,6 +453,7 @@ export class HandDetector {
         for (let i = 0; i < results.landmarks.length; i++) {
           const landmarks = results.landmarks[i];
           const handedness = results.handedness[i];
+          const worldLandmarks = results.worldLandmarks?.[i];
 
           if (landmarks && landmarks.length === 21) {
             handsData.push({
@@ -104,7 +462,11 @@ export class HandDetector {
                 y: landmark.y,
                 z: landmark.z || 0
               })),
-              handedness: handedness[0]?.displayName || 'Unknown'
+              ...(worldLandmarks?.length === 21 && {
+                worldLandmarks: worldLandmarks.map(({ x, y, z }) => ({ x, y, z }))
+              }),
+              handedness: handedness[0]?.displayName || 'Unknown',
+              handednessScore: handedness[0]?.score
             });
           } else {
             console.warn('Landmarks incompletos detectados:', landmarks?.length || 0);
@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import type { SampleVideo } from './indexeddb';
+import {
+  LATEST_VERSION,
+  StoredSignRecord,
+  applyMigrations,
+  dryRunMigrations,
+  isSignRecord,
+  migrateSignRecord,
+  validateSignRecord
+} from './migrations';
+
+const CREATED_AT = new Date('2024-05-01T10:00:00Z');
+const KEYFRAMES = [{ timestamp: 0, hands: [] }, { timestamp: 133, hands: [] }];
+
+/**
+ * Registro de 'signs' tal como lo guardaba cada versión del esquema
+ */
+function fixture(version: number): StoredSignRecord {
+  const base = { id: `sign-v${version}`, name: 'Buenos días', createdAt: CREATED_AT };
+
+  if (version === 1) {
+    return { ...base, videoBlob: new Blob(['video']), keyframes: KEYFRAMES, duration: 2 };
+  }
+
+  const sample = { id: `sample-v${version}`, keyframes: KEYFRAMES, duration: 2, capturedAt: CREATED_AT };
+  const searchFields = { searchName: 'buenos dias', searchTerms: ['buenos dias', 'buenos', 'dias'], duration: 2 };
+
+  if (version <= 4) return { ...base, samples: [{ ...sample, videoBlob: new Blob(['video']) }] };
+  if (version === 5) return { ...base, ...searchFields, samples: [{ ...sample, videoBlob: new Blob(['video']) }] };
+  return { ...base, ...searchFields, samples: [sample] };
+}
+
+const HISTORICAL_VERSIONS = Array.from({ length: LATEST_VERSION }, (_, index) => index + 1);
+
+describe('migrateSignRecord', () => {
+  it.each(HISTORICAL_VERSIONS)('lleva un registro de la v%i a la forma actual', (version) => {
+    const videos: SampleVideo[] = [];
+    const migrated = migrateSignRecord(fixture(version), version, LATEST_VERSION, {
+      putVideo: video => videos.push(video)
+    });
+
+    expect(isSignRecord(migrated)).toBe(true);
+    expect(migrated).toMatchObject({
+      id: `sign-v${version}`,
+      name: 'Buenos días',
+      createdAt: CREATED_AT,
+      searchName: 'buenos dias',
+      searchTerms: expect.arrayContaining(['buenos dias', 'buenos', 'dias']),
+      duration: 2
+    });
+
+    const [sample] = migrated.samples as StoredSignRecord[];
+    expect(sample).toMatchObject({ keyframes: KEYFRAMES, duration: 2, capturedAt: CREATED_AT });
+    expect(sample).not.toHaveProperty('videoBlob');
+
+    // Desde la v6 el video ya estaba en su almacén; antes lo mueve la migración
+    expect(videos).toHaveLength(version < 6 ? 1 : 0);
+    videos.forEach(video => expect(video).toMatchObject({ id: sample.id, signId: migrated.id }));
+  });
+
+  it('no vuelve a convertir un registro de la v1 que ya tiene tomas', () => {
+    const record = fixture(2);
+    expect(migrateSignRecord(record, 1, 2)).toBe(record);
+  });
+});
+
+describe('validateSignRecord', () => {
+  it('acepta un registro de la versión actual', () => {
+    expect(validateSignRecord(migrateSignRecord(fixture(LATEST_VERSION), LATEST_VERSION))).toEqual([]);
+  });
+
+  it('informa cada campo que falta', () => {
+    expect(validateSignRecord(null)).toEqual(['Registro vacío o inválido']);
+    expect(validateSignRecord({ id: 'x', createdAt: 'ayer' })).toEqual([
+      'Seña x: falta el nombre',
+      'Seña x: createdAt no es una fecha',
+      'Seña x: falta la lista de tomas'
+    ]);
+    expect(validateSignRecord({ ...fixture(LATEST_VERSION), samples: [{ keyframes: [] }, { id: 'b' }] })).toEqual([
+      `Seña sign-v${LATEST_VERSION}, toma 1: falta el id`,
+      `Seña sign-v${LATEST_VERSION}, toma 2: faltan los keyframes`
+    ]);
+  });
+});
+
+describe('dryRunMigrations', () => {
+  it('valida todos los registros sin modificarlos', () => {
+    const records = [fixture(1), fixture(1)];
+    const snapshot = structuredClone(records);
+    const report = dryRunMigrations(records, 1);
+
+    expect(report).toEqual({ fromVersion: 1, toVersion: LATEST_VERSION, recordsChecked: 2, errors: [] });
+    expect(records).toEqual(snapshot);
+  });
+
+  it('reúne los errores de registros inválidos y de transformaciones que fallan', () => {
+    const report = dryRunMigrations([fixture(4), null, { ...fixture(4), id: 'rota', samples: 'no es lista' }], 4);
+
+    expect(report.recordsChecked).toBe(3);
+    expect(report.errors).toHaveLength(2);
+    expect(report.errors[0]).toBe('Registro vacío o inválido');
+    expect(report.errors[1]).toMatch(/^Seña rota: /);
+  });
+});
+
+let databaseCount = 0;
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Crea una base con el esquema de la versión indicada y los registros dados
+ */
+function createDatabase(version: number, records: StoredSignRecord[]): Promise<string> {
+  const name = `migrations-test-${++databaseCount}`;
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => {
+      applyMigrations(request.result, request.transaction!, 0, version);
+      records.forEach(record => request.transaction!.objectStore('signs').put(record));
+    };
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      request.result.close();
+      resolve(name);
+    };
+  });
+}
+
+/**
+ * Abre la base en la última versión aplicando las migraciones pendientes
+ */
+function upgradeDatabase(name: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, LATEST_VERSION);
+    request.onupgradeneeded = (event) => {
+      applyMigrations(request.result, request.transaction!, event.oldVersion, LATEST_VERSION);
+    };
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+  });
+}
+
+async function readStore<T>(db: IDBDatabase, storeName: string): Promise<T[]> {
+  return requestResult(db.transaction([storeName], 'readonly').objectStore(storeName).getAll());
+}
+
+describe('applyMigrations', () => {
+  it.each(HISTORICAL_VERSIONS.slice(0, -1))('actualiza una base de la v%i y mueve los videos', async (version) => {
+    const name = await createDatabase(version, [fixture(version)]);
+    const db = await upgradeDatabase(name);
+
+    expect(db.version).toBe(LATEST_VERSION);
+    expect([...db.objectStoreNames].sort()).toEqual(
+      ['features', 'sessions', 'settings', 'signs', 'summaries', 'transcripts', 'videos']
+    );
+
+    const [sign] = await readStore<StoredSignRecord>(db, 'signs');
+    expect(isSignRecord(sign)).toBe(true);
+    expect(sign).toMatchObject({ id: `sign-v${version}`, searchName: 'buenos dias' });
+
+    const videos = await readStore<SampleVideo>(db, 'videos');
+    expect(videos).toHaveLength(version < 6 ? 1 : 0);
+    db.close();
+  });
+
+  it('aborta la actualización y conserva la versión anterior si un registro no se puede migrar', async () => {
+    const name = await createDatabase(4, [fixture(4), { ...fixture(4), id: 'rota', samples: 'no es lista' }]);
+
+    await expect(upgradeDatabase(name)).rejects.toMatchObject({ name: 'AbortError' });
+
+    const request = indexedDB.open(name);
+    const db = await requestResult(request);
+    expect(db.version).toBe(4);
+    expect([...db.objectStoreNames]).not.toContain('videos');
+
+    const signs = await readStore<StoredSignRecord>(db, 'signs');
+    expect(signs.find(sign => sign.id === 'sign-v4')).not.toHaveProperty('searchName');
+    db.close();
+  });
+});
@@ -0,0 +1,334 @@
+import type { SampleVideo, SignRecord } from './indexeddb';
+
+/**
+ * Escrituras en otros almacenes que acompañan la transformación de una seña.
+ * Solo existe durante la actualización real; en la verificación previa y al
+ * importar paquetes no se pasa.
+ */
+export interface MigrationContext {
+  putVideo: (video: SampleVideo) => void;
+}
+
+/**
+ * Registro de 'signs' tal como está guardado en alguna versión del esquema.
+ * Cada paso conoce la forma que recibe; los tipos Legacy* describen las anteriores.
+ */
+export type StoredSignRecord = Record<string, unknown>;
+
+/**
+ * Seña de la v1: una sola grabación con su video y keyframes
+ */
+interface LegacySignRecordV1 extends StoredSignRecord {
+  id: string;
+  createdAt: Date;
+  videoBlob?: Blob;
+  keyframes?: unknown[];
+  duration?: number;
+}
+
+/**
+ * Toma de las v2 a v5, con el video todavía dentro de la seña
+ */
+interface LegacySampleV2 extends StoredSignRecord {
+  id: string;
+  videoBlob?: Blob;
+}
+
+/**
+ * Seña de las v2 a v5: lista de tomas
+ */
+interface LegacySignRecordV2 extends StoredSignRecord {
+  id: string;
+  name: string;
+  aliases?: string[];
+  samples: LegacySampleV2[];
+}
+
+/**
+ * Normalización de textos de la v5, copiada aquí para que lo que escribe la migración
+ * no cambie si después cambia la de la aplicación (signSearch / textToSign)
+ */
+const normalizeTextV5 = (text: string): string => text
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+/**
+ * Campos de búsqueda tal como los definió la v5
+ */
+function searchFieldsV5(sign: LegacySignRecordV2): StoredSignRecord {
+  const phrases = [sign.name, ...(sign.aliases ?? [])].map(normalizeTextV5).filter(Boolean);
+  const durations = sign.samples.map(sample => typeof sample.duration === 'number' ? sample.duration : 0);
+
+  return {
+    searchName: normalizeTextV5(sign.name),
+    searchTerms: Array.from(new Set(phrases.flatMap(phrase => [phrase, ...phrase.split(' ')]))),
+    duration: durations.length > 0 ? durations.reduce((total, duration) => total + duration, 0) / durations.length : 0
+  };
+}
+
+/**
+ * Paso de migración del esquema de IndexedDB.
+ * - upgradeSchema: cambios de almacenes e índices (se ejecuta dentro de onupgradeneeded)
+ * - migrateSign: transformación de un registro de 'signs' al formato de esta versión
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  upgradeSchema?: (db: IDBDatabase, transaction: IDBTransaction) => void;
+  migrateSign?: (record: StoredSignRecord, context?: MigrationContext) => StoredSignRecord;
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  recordsChecked: number;
+  errors: string[];
+}
+
+export class MigrationError extends Error {
+  constructor(
+    message: string,
+    public readonly fromVersion: number,
+    public readonly toVersion: number,
+    public readonly backupId?: number
+  ) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Crear almacén de señas',
+    upgradeSchema: (db) => {
+      const store = db.createObjectStore('signs', { keyPath: 'id' });
+      store.createIndex('name', 'name', { unique: false });
+      store.createIndex('createdAt', 'createdAt', { unique: false });
+    }
+  },
+  {
+    version: 2,
+    description: 'Convertir la grabación única de cada seña en una lista de tomas',
+    migrateSign: (record) => {
+      if (record.samples) return record;
+
+      const { videoBlob, keyframes, duration, ...rest } = record as LegacySignRecordV1;
+      return {
+        ...rest,
+        samples: [{
+          id: crypto.randomUUID(),
+          videoBlob,
+          keyframes: keyframes || [],
+          duration: duration || 0,
+          capturedAt: rest.createdAt
+        }]
+      };
+    }
+  },
+  {
+    version: 3,
+    description: 'Crear almacén de transcripciones',
+    upgradeSchema: (db) => {
+      const store = db.createObjectStore('transcripts', { keyPath: 'id' });
+      store.createIndex('createdAt', 'createdAt', { unique: false });
+    }
+  },
+  {
+    version: 4,
+    description: 'Crear almacén de ajustes de la biblioteca',
+    upgradeSchema: (db) => {
+      db.createObjectStore('settings', { keyPath: 'key' });
+    }
+  },
+  {
+    version: 5,
+    description: 'Agregar etiquetas, categorías e índices de búsqueda a las señas',
+    upgradeSchema: (_db, transaction) => {
+      const store = transaction.objectStore('signs');
+      store.createIndex('tags', 'tags', { unique: false, multiEntry: true });
+      store.createIndex('category', 'category', { unique: false });
+      store.createIndex('searchName', 'searchName', { unique: false });
+      store.createIndex('searchTerms', 'searchTerms', { unique: false, multiEntry: true });
+      store.createIndex('duration', 'duration', { unique: false });
+    },
+    migrateSign: (record) => ({ ...record, ...searchFieldsV5(record as LegacySignRecordV2) })
+  },
+  {
+    version: 6,
+    description: 'Mover los videos de las tomas a su propio almacén',
+    upgradeSchema: (db) => {
+      const store = db.createObjectStore('videos', { keyPath: 'id' });
+      store.createIndex('signId', 'signId', { unique: false });
+    },
+    migrateSign: (record, context) => {
+      const sign = record as LegacySignRecordV2;
+      return {
+        ...sign,
+        samples: sign.samples.map(({ videoBlob, ...sample }) => {
+          if (videoBlob) context?.putVideo({ id: sample.id, signId: sign.id, blob: videoBlob });
+          return sample;
+        })
+      };
+    }
+  },
+  {
+    version: 7,
+    description: 'Crear almacén de características precalculadas de las tomas',
+    upgradeSchema: (db) => {
+      // Se llena en segundo plano al abrir la base (SignDatabase.rebuildFeatureCache)
+      const store = db.createObjectStore('features', { keyPath: 'id' });
+      store.createIndex('signId', 'signId', { unique: false });
+      store.createIndex('version', 'version', { unique: false });
+    }
+  },
+  {
+    version: 8,
+    description: 'Crear almacén de la última sesión continua grabada',
+    upgradeSchema: (db) => {
+      db.createObjectStore('sessions', { keyPath: 'id' });
+    }
+  },
+  {
+    version: 9,
+    description: 'Crear almacén de resúmenes de señas para listar sin leer keyframes',
+    upgradeSchema: (db) => {
+      // Se llena en segundo plano al abrir la base (SignDatabase.rebuildSignSummaries)
+      db.createObjectStore('summaries', { keyPath: 'id' });
+    }
+  }
+];
+
+export const LATEST_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Verifica que los pasos estén ordenados y sin huecos (1, 2, 3, ...)
+ */
+function assertMigrationsOrdered(steps: Migration[]): void {
+  steps.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(`Migración fuera de orden: se esperaba la versión ${index + 1} y se encontró ${migration.version}`);
+    }
+  });
+}
+
+assertMigrationsOrdered(migrations);
+
+/**
+ * Devuelve los pasos necesarios para pasar de fromVersion a toVersion
+ */
+export function getPendingMigrations(fromVersion: number, toVersion: number = LATEST_VERSION): Migration[] {
+  return migrations.filter(migration => migration.version > fromVersion && migration.version <= toVersion);
+}
+
+const isStoredRecord = (value: unknown): value is StoredSignRecord =>
+  typeof value === 'object' && value !== null;
+
+/**
+ * Aplica en orden todas las transformaciones de registro pendientes
+ */
+export function migrateSignRecord(
+  record: StoredSignRecord,
+  fromVersion: number,
+  toVersion: number = LATEST_VERSION,
+  context?: MigrationContext
+): StoredSignRecord {
+  return getPendingMigrations(fromVersion, toVersion).reduce(
+    (current, migration) => migration.migrateSign ? migration.migrateSign(current, context) : current,
+    record
+  );
+}
+
+/**
+ * Valida que un registro tenga la forma de SignRecord de la última versión
+ */
+export function validateSignRecord(record: unknown): string[] {
+  if (!isStoredRecord(record)) return ['Registro vacío o inválido'];
+
+  const errors: string[] = [];
+  const label = typeof record.id === 'string' ? `Seña ${record.id}` : 'Seña sin id';
+
+  if (typeof record.id !== 'string') errors.push(`${label}: falta el id`);
+  if (typeof record.name !== 'string') errors.push(`${label}: falta el nombre`);
+  if (!(record.createdAt instanceof Date)) errors.push(`${label}: createdAt no es una fecha`);
+
+  if (!Array.isArray(record.samples)) {
+    errors.push(`${label}: falta la lista de tomas`);
+    return errors;
+  }
+
+  record.samples.forEach((sample: unknown, index: number) => {
+    const take = isStoredRecord(sample) ? sample : {};
+    if (typeof take.id !== 'string') errors.push(`${label}, toma ${index + 1}: falta el id`);
+    if (!Array.isArray(take.keyframes)) errors.push(`${label}, toma ${index + 1}: faltan los keyframes`);
+  });
+
+  return errors;
+}
+
+/**
+ * Indica si un registro migrado ya tiene la forma de SignRecord
+ */
+export function isSignRecord(record: unknown): record is SignRecord {
+  return validateSignRecord(record).length === 0;
+}
+
+/**
+ * Ejecuta las migraciones en memoria sin escribir nada y valida el resultado
+ */
+export function dryRunMigrations(records: unknown[], fromVersion: number, toVersion: number = LATEST_VERSION): MigrationReport {
+  const errors: string[] = [];
+
+  for (const record of records) {
+    if (!isStoredRecord(record)) {
+      errors.push('Registro vacío o inválido');
+      continue;
+    }
+
+    try {
+      errors.push(...validateSignRecord(migrateSignRecord(record, fromVersion, toVersion)));
+    } catch (error) {
+      errors.push(`Seña ${record.id ?? '?'}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return { fromVersion, toVersion, recordsChecked: records.length, errors };
+}
+
+/**
+ * Ejecuta los pasos pendientes dentro de la transacción 'versionchange'.
+ * Primero se aplican todos los cambios de esquema y luego un único recorrido
+ * de los registros con las transformaciones encadenadas.
+ */
+export function applyMigrations(db: IDBDatabase, transaction: IDBTransaction, oldVersion: number, newVersion: number): void {
+  const pending = getPendingMigrations(oldVersion, newVersion);
+
+  pending.forEach(migration => {
+    console.log(`Aplicando migración v${migration.version}: ${migration.description}`);
+    migration.upgradeSchema?.(db, transaction);
+  });
+
+  if (oldVersion === 0 || !pending.some(migration => migration.migrateSign)) return;
+
+  const context: MigrationContext = {
+    putVideo: (video) => transaction.objectStore('videos').put(video)
+  };
+
+  transaction.objectStore('signs').openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
+    if (!cursor) return;
+
+    try {
+      cursor.update(migrateSignRecord(cursor.value, oldVersion, newVersion, context));
+      cursor.continue();
+    } catch (error) {
+      console.error(`Error migrando la seña ${cursor.value?.id}:`, error);
+      // Abortar revierte todos los cambios de la actualización
+      transaction.abort();
+    }
+  };
+}
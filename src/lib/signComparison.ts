@@ -1,241 +1,186 @@
-import { FrameData, HandLandmarks } from './mediapipe';
+import { FrameData } from './mediapipe';
+import { DominantHand, orientSequence } from './handedness';
+import { DEFAULT_MATCHER_ID, MatchScore, SignMatcher, getMatcher } from './signMatchers';
+import {
+  FEATURE_EXTRACTOR_VERSION,
+  FeatureOptions,
+  FeatureWeights,
+  SequenceFeatures,
+  combineFeatureGroups,
+  extractSequence,
+  hasBodyReference,
+  hasWorldLandmarks
+} from './signFeatures';
+import { SampleFeatureCache, cachedFeatureGroups, isFeatureCacheCurrent } from './featureCache';
+import type { LibrarySettings } from './indexeddb';
 
 export interface ComparisonResult {
   signId: string;
   signName: string;
   similarity: number;
   isMatch: boolean;
+  threshold: number; // Umbral aplicado a esta seña
+  bestSampleId?: string;
+  samplesCompared: number;
+  matcherId: string;
+  explanation?: string; // Explicación del algoritmo para la mejor toma
 }
 
-export class SignComparisonService {
-  private readonly SIMILARITY_THRESHOLD = 0.92; // Más estricto para mayor exactitud
-  private readonly TARGET_FRAMES = 60; // Normalizar a 60 frames (8 segundos a ~7.5 fps)
-  private readonly MIN_QUALITY_FRAMES = 40; // Mínimo de frames de calidad requeridos
+/**
+ * 'best': usa la toma más parecida; 'knn': promedia las k tomas más parecidas
+ */
+export type SampleAggregation = 'best' | 'knn';
 
-  /**
-   * Normaliza una secuencia de frames a una duración específica
-   */
-  private normalizeSequence(frames: FrameData[]): FrameData[] {
-    if (frames.length === 0) return [];
-    
-    const normalized: FrameData[] = [];
-    const step = (frames.length - 1) / (this.TARGET_FRAMES - 1);
-
-    for (let i = 0; i < this.TARGET_FRAMES; i++) {
-      const index = Math.round(i * step);
-      normalized.push(frames[Math.min(index, frames.length - 1)]);
-    }
-
-    return normalized;
-  }
-
-  /**
-   * Extrae características mejoradas de un frame con normalización relativa
-   */
-  private extractFeatures(frameData: FrameData): number[] {
-    const features: number[] = [];
-    
-    frameData.hands.forEach(hand => {
-      if (hand.landmarks.length !== 21) return; // Validar landmarks completos
-      
-      // Usar la muñeca (landmark 0) como punto de referencia para normalización
-      const wrist = hand.landmarks[0];
-      
-      // Landmarks clave para mayor precisión en comparación
-      const keyLandmarks = [0, 4, 8, 12, 16, 20]; // Muñeca y puntas de dedos
-      
-      hand.landmarks.forEach((landmark, index) => {
-        // Normalizar posición relativa a la muñeca para invarianza de posición
-        const relativeX = landmark.x - wrist.x;
-        const relativeY = landmark.y - wrist.y;
-        const relativeZ = landmark.z - wrist.z;
-        
-        // Dar más peso a landmarks clave
-        const weight = keyLandmarks.includes(index) ? 1.5 : 1.0;
-        
-        features.push(relativeX * weight, relativeY * weight, relativeZ * weight);
-      });
-
-      // Agregar distancias entre landmarks clave para capturar la forma de la mano
-      for (let i = 0; i < keyLandmarks.length - 1; i++) {
-        for (let j = i + 1; j < keyLandmarks.length; j++) {
-          const p1 = hand.landmarks[keyLandmarks[i]];
-          const p2 = hand.landmarks[keyLandmarks[j]];
-          const distance = Math.sqrt(
-            Math.pow(p1.x - p2.x, 2) + 
-            Math.pow(p1.y - p2.y, 2) + 
-            Math.pow(p1.z - p2.z, 2)
-          );
-          features.push(distance);
-        }
-      }
-    });
+export interface ComparisonOptions {
+  matcherId?: string;
+  aggregation?: SampleAggregation;
+  dominantHand?: DominantHand; // Mano dominante de quien hizo la secuencia consultada
+  featureWeights?: FeatureWeights;
+}
 
-    // Si no hay manos detectadas, retornar vector nulo
-    if (features.length === 0) {
-      return new Array(78).fill(0); // 21 landmarks * 3 coords + 15 distancias
-    }
+/**
+ * Opciones de comparación elegidas en los ajustes de la biblioteca
+ */
+export function comparisonOptionsFromSettings(settings: LibrarySettings): ComparisonOptions {
+  return {
+    matcherId: settings.matcherId,
+    aggregation: settings.sampleAggregation,
+    dominantHand: settings.dominantHand,
+    featureWeights: settings.featureWeights
+  };
+}
 
-    // Normalizar tamaño del vector
-    while (features.length < 156) { // 2 manos * 78 features
-      features.push(0);
-    }
+/**
+ * Umbral propio de una seña: el calibrado automáticamente y el ajuste manual, que tiene prioridad
+ */
+export interface SignThreshold {
+  calibrated?: number;
+  override?: number;
+  calibratedAt?: Date;
+  extractorVersion?: number; // FEATURE_EXTRACTOR_VERSION con la que se calibró
+}
 
-    return features.slice(0, 156);
-  }
+/**
+ * Umbral calibrado si sigue valiendo para el extractor actual; los de otra versión se ignoran
+ */
+export function currentCalibration(threshold?: SignThreshold): number | undefined {
+  return threshold?.extractorVersion === FEATURE_EXTRACTOR_VERSION ? threshold.calibrated : undefined;
+}
 
-  /**
-   * Calcula la similitud de coseno entre dos vectores
-   */
-  private cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) return 0;
+/**
+ * Toma de referencia. Los keyframes pueden faltar si las características precalculadas
+ * están al día (ver SignDatabase.getSignCandidates)
+ */
+export interface CandidateSample {
+  id: string;
+  keyframeCount: number;
+  keyframes?: FrameData[];
+  dominantHand?: DominantHand;
+  features?: SampleFeatureCache; // Si falta o es de otra versión se calculan desde los keyframes
+}
 
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
+/**
+ * Indica si la toma trae sus keyframes, para usarla como consulta
+ */
+export const hasKeyframes = (sample: CandidateSample): sample is CandidateSample & { keyframes: FrameData[] } =>
+  (sample.keyframes?.length ?? 0) > 0;
+
+export interface SignCandidate {
+  id: string;
+  name: string;
+  samples: CandidateSample[];
+  threshold?: SignThreshold;
+}
 
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
-    }
+type ExtractionOptions = Omit<FeatureOptions, 'weights'>;
 
-    if (normA === 0 || normB === 0) return 0;
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.92; // Más estricto para mayor exactitud
 
-    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-  }
+export class SignComparisonService {
+  private readonly MIN_QUALITY_FRAMES = 40; // Mínimo de frames de calidad requeridos
+  private readonly K_NEAREST_SAMPLES = 3; // Tomas consideradas en modo 'knn'
 
   /**
-   * Implementación de Dynamic Time Warping (DTW)
+   * Umbral efectivo de una seña: manual, calibrado o el global por defecto
    */
-  private calculateDTW(seq1: number[][], seq2: number[][]): number {
-    const m = seq1.length;
-    const n = seq2.length;
-    
-    // Matriz de costos
-    const dtw: number[][] = Array(m).fill(null).map(() => Array(n).fill(Infinity));
-    
-    // Inicializar primera celda
-    dtw[0][0] = this.euclideanDistance(seq1[0], seq2[0]);
-
-    // Llenar primera fila y columna
-    for (let i = 1; i < m; i++) {
-      dtw[i][0] = dtw[i-1][0] + this.euclideanDistance(seq1[i], seq2[0]);
-    }
-    
-    for (let j = 1; j < n; j++) {
-      dtw[0][j] = dtw[0][j-1] + this.euclideanDistance(seq1[0], seq2[j]);
-    }
-
-    // Llenar el resto de la matriz
-    for (let i = 1; i < m; i++) {
-      for (let j = 1; j < n; j++) {
-        const cost = this.euclideanDistance(seq1[i], seq2[j]);
-        dtw[i][j] = cost + Math.min(
-          dtw[i-1][j],    // inserción
-          dtw[i][j-1],    // eliminación
-          dtw[i-1][j-1]   // coincidencia
-        );
-      }
-    }
-
-    // Normalizar por la longitud del camino
-    return dtw[m-1][n-1] / (m + n);
+  getThreshold(sign: Pick<SignCandidate, 'threshold'>): number {
+    return sign.threshold?.override ?? currentCalibration(sign.threshold) ?? DEFAULT_SIMILARITY_THRESHOLD;
   }
 
   /**
-   * Calcula la distancia euclidiana entre dos vectores
+   * Características de una toma de referencia para comparar con la consulta: las
+   * precalculadas si sirven para estas opciones, o extraídas de los keyframes si no.
+   * Cuerpo y landmarks métricos se usan solo si ambas secuencias los tienen (las tomas antiguas no).
    */
-  private euclideanDistance(a: number[], b: number[]): number {
-    if (a.length !== b.length) return Infinity;
-    
-    let sum = 0;
-    for (let i = 0; i < a.length; i++) {
-      sum += Math.pow(a[i] - b[i], 2);
-    }
-    
-    return Math.sqrt(sum);
+  private referenceFeatures(
+    sample: CandidateSample,
+    query: ExtractionOptions,
+    weights?: FeatureWeights
+  ): { options: ExtractionOptions; features: SequenceFeatures } {
+    const cache = isFeatureCacheCurrent(sample.features, sample) ? sample.features : undefined;
+    const frames = cache ? null : orientSequence(sample.keyframes ?? [], sample.dominantHand);
+    const options: ExtractionOptions = {
+      bodyRelative: query.bodyRelative && (cache ? cache.bodyMotion !== undefined : hasBodyReference(frames!)),
+      worldLandmarks: query.worldLandmarks && (cache ? cache.worldLandmarks : hasWorldLandmarks(frames!))
+    };
+
+    const groups = cache && cachedFeatureGroups(cache, options);
+    const features = groups
+      ? combineFeatureGroups(groups, weights)
+      : extractSequence(frames ?? orientSequence(sample.keyframes ?? [], sample.dominantHand), { ...options, weights });
+
+    return { options, features };
   }
 
   /**
-   * Compara dos secuencias de señas
+   * Compara las características de dos secuencias con el algoritmo indicado
    */
-  private compareSequences(sequence1: FrameData[], sequence2: FrameData[]): number {
+  private compareSequences(
+    sequence1: SequenceFeatures,
+    sequence2: SequenceFeatures,
+    matcher: SignMatcher
+  ): MatchScore {
     try {
       // Validar que las secuencias no estén vacías
-      if (!sequence1 || sequence1.length === 0 || !sequence2 || sequence2.length === 0) {
+      if (sequence1.frames === 0 || sequence2.frames === 0) {
         console.warn('Una o ambas secuencias están vacías');
-        return 0;
-      }
-
-      // Normalizar ambas secuencias
-      const norm1 = this.normalizeSequence(sequence1);
-      const norm2 = this.normalizeSequence(sequence2);
-
-      // Validar secuencias normalizadas
-      if (norm1.length === 0 || norm2.length === 0) {
-        console.warn('Error en la normalización de secuencias');
-        return 0;
+        return { similarity: 0 };
       }
 
-      // Extraer características de cada frame
-      const features1 = norm1.map(frame => this.extractFeatures(frame));
-      const features2 = norm2.map(frame => this.extractFeatures(frame));
-
-      // Validar que se extrajeron características
-      if (features1.length === 0 || features2.length === 0) {
-        console.warn('No se pudieron extraer características de los frames');
-        return 0;
-      }
+      const score = matcher.compare(sequence1, sequence2);
+      const similarity = isNaN(score.similarity) ? 0 : score.similarity;
 
-      // Calcular DTW
-      const dtwDistance = this.calculateDTW(features1, features2);
-      
-      // Validar que el DTW es un número válido
-      if (isNaN(dtwDistance) || !isFinite(dtwDistance)) {
-        console.warn('DTW calculó una distancia inválida');
-        return 0;
-      }
-      
-      // Convertir distancia DTW a similitud (0-1)
-      const maxDistance = 10; // Distancia máxima esperada para normalizar
-      const dtwSimilarity = Math.max(0, 1 - (dtwDistance / maxDistance));
-
-      // Calcular similitud promedio frame por frame usando coseno
-      let cosineSimilaritySum = 0;
-      const minFrames = Math.min(features1.length, features2.length);
-      
-      for (let i = 0; i < minFrames; i++) {
-        const cosineResult = this.cosineSimilarity(features1[i], features2[i]);
-        if (!isNaN(cosineResult) && isFinite(cosineResult)) {
-          cosineSimilaritySum += cosineResult;
-        }
-      }
-      
-      const avgCosineSimilarity = minFrames > 0 ? cosineSimilaritySum / minFrames : 0;
-
-      // Validar similitudes finales
-      const finalDtwSim = isNaN(dtwSimilarity) ? 0 : dtwSimilarity;
-      const finalCosineSim = isNaN(avgCosineSimilarity) ? 0 : avgCosineSimilarity;
-
-      // Combinar métricas con pesos optimizados para mayor exactitud
-      const finalSimilarity = (finalDtwSim * 0.7) + (finalCosineSim * 0.3);
-      
-      // Aplicar función de suavizado para penalizar similitudes mediocres
-      const smoothedSimilarity = Math.pow(finalSimilarity, 1.2);
-      
-      return Math.max(0, Math.min(1, smoothedSimilarity)); // Asegurar que esté entre 0 y 1
+      return { ...score, similarity: Math.max(0, Math.min(1, similarity)) }; // Asegurar que esté entre 0 y 1
     } catch (error) {
       console.error('Error en compareSequences:', error);
-      return 0;
+      return { similarity: 0 };
     }
   }
 
+  /**
+   * Combina las similitudes de todas las tomas de una seña en un único puntaje
+   */
+  private aggregateSampleScores(scores: number[], aggregation: SampleAggregation): number {
+    if (scores.length === 0) return 0;
+
+    const sorted = [...scores].sort((a, b) => b - a);
+    if (aggregation === 'best') return sorted[0];
+
+    const nearest = sorted.slice(0, Math.min(this.K_NEAREST_SAMPLES, sorted.length));
+    return nearest.reduce((sum, score) => sum + score, 0) / nearest.length;
+  }
+
   /**
    * Compara una seña grabada con todas las señas en la base de datos
    */
-  async compareWithDatabase(recordedFrames: FrameData[], savedSigns: Array<{id: string, name: string, keyframes: FrameData[]}>): Promise<ComparisonResult[]> {
+  async compareWithDatabase(
+    recordedFrames: FrameData[],
+    savedSigns: SignCandidate[],
+    options: ComparisonOptions = {}
+  ): Promise<ComparisonResult[]> {
     const results: ComparisonResult[] = [];
+    const matcher = getMatcher(options.matcherId ?? DEFAULT_MATCHER_ID);
+    const aggregation = options.aggregation ?? 'best';
 
     // Validar que tenemos frames para comparar
     if (!recordedFrames || recordedFrames.length === 0) {
@@ -249,21 +194,60 @@ export class SignComparisonService {
       return results;
     }
 
+    // Comparar siempre en la orientación de una persona diestra
+    const query = orientSequence(recordedFrames, options.dominantHand);
+    const queryOptions: ExtractionOptions = {
+      bodyRelative: hasBodyReference(query),
+      worldLandmarks: hasWorldLandmarks(query)
+    };
+
+    // La consulta se extrae una vez por combinación de opciones, no una vez por toma
+    const queryFeatures = new Map<string, SequenceFeatures>();
+    const queryFeaturesFor = (extraction: ExtractionOptions): SequenceFeatures => {
+      const key = `${extraction.bodyRelative}-${extraction.worldLandmarks}`;
+      if (!queryFeatures.has(key)) {
+        queryFeatures.set(key, extractSequence(query, { ...extraction, weights: options.featureWeights }));
+      }
+      return queryFeatures.get(key)!;
+    };
+
     for (const savedSign of savedSigns) {
       try {
-        // Validar que la seña guardada tiene keyframes
-        if (!savedSign.keyframes || savedSign.keyframes.length === 0) {
+        // Validar que la seña guardada tiene tomas con keyframes
+        const validSamples = (savedSign.samples || []).filter(sample => sample.keyframeCount > 0);
+        if (validSamples.length === 0) {
           console.warn(`Seña ${savedSign.name} no tiene keyframes válidos`);
           continue;
         }
 
-        const similarity = this.compareSequences(recordedFrames, savedSign.keyframes);
-        
+        // Comparar contra cada toma de referencia
+        const sampleScores = validSamples.map(sample => {
+          const reference = this.referenceFeatures(sample, queryOptions, options.featureWeights);
+          return {
+            sampleId: sample.id,
+            ...this.compareSequences(queryFeaturesFor(reference.options), reference.features, matcher)
+          };
+        });
+        const bestSample = sampleScores.reduce((best, current) =>
+          current.similarity > best.similarity ? current : best
+        );
+        const similarity = this.aggregateSampleScores(
+          sampleScores.map(score => score.similarity),
+          aggregation
+        );
+
+        const threshold = this.getThreshold(savedSign);
+
         results.push({
           signId: savedSign.id,
           signName: savedSign.name,
           similarity,
-          isMatch: similarity >= this.SIMILARITY_THRESHOLD
+          isMatch: similarity >= threshold,
+          threshold,
+          bestSampleId: bestSample.sampleId,
+          samplesCompared: sampleScores.length,
+          matcherId: matcher.id,
+          explanation: bestSample.explanation
         });
       } catch (error) {
         console.error(`Error comparando seña ${savedSign.name}:`, error);
@@ -279,8 +263,12 @@ export class SignComparisonService {
   /**
    * Encuentra la mejor coincidencia si existe
    */
-  async findBestMatch(recordedFrames: FrameData[], savedSigns: Array<{id: string, name: string, keyframes: FrameData[]}>): Promise<ComparisonResult | null> {
-    const results = await this.compareWithDatabase(recordedFrames, savedSigns);
+  async findBestMatch(
+    recordedFrames: FrameData[],
+    savedSigns: SignCandidate[],
+    options: ComparisonOptions = {}
+  ): Promise<ComparisonResult | null> {
+    const results = await this.compareWithDatabase(recordedFrames, savedSigns, options);
     
     if (results.length > 0 && results[0].isMatch) {
       return results[0];
@@ -0,0 +1,598 @@
+import { FACE_NOSE_TIP, FrameData, POSE_LEFT_SHOULDER, POSE_NOSE, POSE_RIGHT_SHOULDER } from './mediapipe';
+import { HandSlotTracker, SlottedFrame, SlottedHands, trackHandSlots } from './handTracker';
+
+export const TARGET_FRAMES = 60; // Normalizar a 60 frames (8 segundos a ~7.5 fps)
+
+/**
+ * Versión del extractor de características. Subirla al cambiar cómo se calculan
+ * invalida las características precalculadas de la biblioteca y provoca su recálculo,
+ * y deja sin efecto los umbrales calibrados con la versión anterior.
+ * - 2: la caché guarda también la forma en coordenadas de imagen de las tomas con landmarks métricos
+ */
+export const FEATURE_EXTRACTOR_VERSION = 2;
+
+/**
+ * Peso de cada grupo de características en la comparación (0 = no se usa)
+ * - shape: forma de las manos en cada frame
+ * - trajectory: posición de la muñeca respecto del cuerpo o del encuadre
+ * - velocity / acceleration: derivadas de esa posición en el tiempo
+ */
+export interface FeatureWeights {
+  shape: number;
+  trajectory: number;
+  velocity: number;
+  acceleration: number;
+}
+
+export const DEFAULT_FEATURE_WEIGHTS: FeatureWeights = {
+  shape: 1,
+  trajectory: 2,
+  velocity: 1,
+  acceleration: 0.25
+};
+
+/**
+ * Opciones de extracción para una comparación
+ * - bodyRelative: posiciones de la muñeca respecto de los hombros y la nariz en lugar del encuadre
+ * - worldLandmarks: forma de la mano con los landmarks métricos en lugar de los de la imagen
+ */
+export interface FeatureOptions {
+  weights?: FeatureWeights;
+  bodyRelative?: boolean;
+  worldLandmarks?: boolean; // Forma de la mano a partir de las coordenadas métricas 3D
+}
+
+/**
+ * Normaliza una secuencia de frames a una duración específica
+ */
+export function normalizeSequence<T>(frames: T[], targetFrames: number = TARGET_FRAMES): T[] {
+  if (frames.length === 0) return [];
+
+  const normalized: T[] = [];
+  const step = (frames.length - 1) / (targetFrames - 1);
+
+  for (let i = 0; i < targetFrames; i++) {
+    const index = Math.round(i * step);
+    normalized.push(frames[Math.min(index, frames.length - 1)]);
+  }
+
+  return normalized;
+}
+
+type Vector3 = { x: number; y: number; z: number };
+
+const WRIST = 0;
+const INDEX_MCP = 5;
+const MIDDLE_MCP = 9;
+const PINKY_MCP = 17;
+
+// Muñeca y puntas de dedos: se ponderan más en la comparación
+const KEY_LANDMARKS = [0, 4, 8, 12, 16, 20];
+
+// Cadenas de articulaciones de cada dedo, desde la muñeca hasta la punta
+const FINGER_CHAINS = [
+  [0, 1, 2, 3, 4], // Pulgar
+  [0, 5, 6, 7, 8], // Índice
+  [0, 9, 10, 11, 12], // Medio
+  [0, 13, 14, 15, 16], // Anular
+  [0, 17, 18, 19, 20] // Meñique
+];
+
+const MIN_PALM_SIZE = 1e-4;
+
+/** 21 landmarks * 3 coords + 15 distancias + 15 ángulos */
+export const HAND_FEATURES = 21 * 3 + 15 + FINGER_CHAINS.length * 3;
+
+// Cada ranura lleva un indicador de presencia antes de las características de la mano,
+// para que "mano ausente" no se confunda con coordenadas en cero
+const PRESENCE_WEIGHT = 2;
+const MIN_FRAME_WEIGHT = 0.2; // Peso mínimo en el DTW de un frame con etiquetas de mano dudosas
+export const SLOT_FEATURES = HAND_FEATURES + 1;
+export const FRAME_FEATURES = SLOT_FEATURES * 2;
+
+const subtract = (a: Vector3, b: Vector3): Vector3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const dot = (a: Vector3, b: Vector3): number => a.x * b.x + a.y * b.y + a.z * b.z;
+const cross = (a: Vector3, b: Vector3): Vector3 => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x
+});
+const length = (a: Vector3): number => Math.sqrt(dot(a, a));
+const normalize = (a: Vector3): Vector3 => {
+  const size = length(a);
+  return size > 0 ? { x: a.x / size, y: a.y / size, z: a.z / size } : { x: 0, y: 0, z: 0 };
+};
+
+/**
+ * Ángulo (radianes) entre dos huesos consecutivos; 0 = dedo estirado
+ */
+const jointAngle = (a: Vector3, b: Vector3, c: Vector3): number => {
+  const cosine = dot(normalize(subtract(b, a)), normalize(subtract(c, b)));
+  return Math.acos(Math.max(-1, Math.min(1, cosine)));
+};
+
+/**
+ * Características de una mano invariantes a posición, escala y rotación:
+ * coordenadas en un sistema local de la mano (origen en la muñeca, eje Y hacia el
+ * nudillo medio, eje Z normal a la palma) divididas por el tamaño de la palma,
+ * distancias entre puntos clave y ángulos de las articulaciones de cada dedo.
+ * Las coordenadas de imagen están normalizadas al ancho y alto del video, así que la
+ * invarianza a rotación es aproximada en videos no cuadrados; con los landmarks métricos es exacta.
+ */
+function extractHandFeatures(landmarks: Vector3[]): number[] {
+  const wrist = landmarks[WRIST];
+  const palmSize = length(subtract(landmarks[MIDDLE_MCP], wrist));
+  if (palmSize < MIN_PALM_SIZE) return new Array(HAND_FEATURES).fill(0);
+
+  const axisY = normalize(subtract(landmarks[MIDDLE_MCP], wrist));
+  const axisZ = normalize(cross(subtract(landmarks[INDEX_MCP], wrist), subtract(landmarks[PINKY_MCP], wrist)));
+  const axisX = cross(axisY, axisZ);
+
+  const features: number[] = [];
+
+  landmarks.forEach((landmark, index) => {
+    const relative = subtract(landmark, wrist);
+    const weight = KEY_LANDMARKS.includes(index) ? 1.5 : 1.0;
+
+    features.push(
+      (dot(relative, axisX) / palmSize) * weight,
+      (dot(relative, axisY) / palmSize) * weight,
+      (dot(relative, axisZ) / palmSize) * weight
+    );
+  });
+
+  // Distancias entre landmarks clave para capturar la forma de la mano
+  for (let i = 0; i < KEY_LANDMARKS.length - 1; i++) {
+    for (let j = i + 1; j < KEY_LANDMARKS.length; j++) {
+      features.push(length(subtract(landmarks[KEY_LANDMARKS[i]], landmarks[KEY_LANDMARKS[j]])) / palmSize);
+    }
+  }
+
+  // Flexión de cada articulación de los dedos
+  FINGER_CHAINS.forEach(chain => {
+    for (let joint = 1; joint < chain.length - 1; joint++) {
+      features.push(jointAngle(landmarks[chain[joint - 1]], landmarks[chain[joint]], landmarks[chain[joint + 1]]));
+    }
+  });
+
+  return features;
+}
+
+/**
+ * Características de un frame con las manos ya asignadas a ranuras:
+ * primero la mano dominante y luego la no dominante
+ */
+export function extractSlotFeatures(slots: SlottedHands, worldLandmarks = false): number[] {
+  return [slots.dominant, slots.nonDominant].flatMap(hand => hand
+    ? [PRESENCE_WEIGHT, ...extractHandFeatures(worldLandmarks && hand.worldLandmarks ? hand.worldLandmarks : hand.landmarks)]
+    : new Array(SLOT_FEATURES).fill(0)
+  );
+}
+
+/**
+ * Indica si todas las manos de la secuencia tienen landmarks métricos (grabaciones nuevas)
+ */
+export function hasWorldLandmarks(frames: FrameData[]): boolean {
+  const hands = frames.flatMap(frame => frame.hands);
+  return hands.length > 0 && hands.every(hand => hand.worldLandmarks?.length === 21);
+}
+
+/**
+ * Peso de un frame según la confianza de MediaPipe en la etiqueta izquierda/derecha de sus
+ * manos (handednessScore). No mide la calidad de los landmarks, pero una etiqueta dudosa
+ * suele acompañar a manos borrosas o parcialmente tapadas. El puntaje va de 0.5 (al azar)
+ * a 1; los frames sin manos o sin puntaje pesan 1.
+ */
+function handednessWeight(slots: SlottedHands): number {
+  const scores = [slots.dominant, slots.nonDominant]
+    .filter((hand): hand is NonNullable<typeof hand> => hand?.handednessScore !== undefined)
+    .map(hand => hand.handednessScore!);
+  if (scores.length === 0) return 1;
+
+  const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  return Math.max(MIN_FRAME_WEIGHT, Math.min(1, (mean - 0.5) * 2));
+}
+
+/**
+ * Extrae las características de un frame aislado (sin historial para asignar ranuras).
+ * La secuencia debe estar orientada previamente con orientSequence.
+ */
+export function extractFeatures(frameData: FrameData): number[] {
+  return extractSlotFeatures(new HandSlotTracker().assign(frameData.hands));
+}
+
+type Point2 = { x: number; y: number };
+
+const ZERO: Point2 = { x: 0, y: 0 };
+
+const MIN_SHOULDER_VISIBILITY = 0.5;
+const MIN_SHOULDER_WIDTH = 1e-3;
+const MIN_BODY_COVERAGE = 0.5; // Fracción de frames con hombros visibles para comparar respecto del cuerpo
+
+/**
+ * Referencia corporal de un frame: centro y ancho de hombros, y la nariz si se ve
+ */
+interface BodyReference {
+  center: Point2;
+  scale: number;
+  nose: Point2 | null;
+}
+
+// Sin pose se usa el centro del encuadre, como en las grabaciones solo de manos
+const FRAME_REFERENCE: BodyReference = { center: { x: 0.5, y: 0.5 }, scale: 1, nose: null };
+
+function bodyReference(frame: Pick<FrameData, 'pose' | 'face'>): BodyReference | null {
+  const left = frame.pose?.[POSE_LEFT_SHOULDER];
+  const right = frame.pose?.[POSE_RIGHT_SHOULDER];
+  if (!left || !right) return null;
+  if ((left.visibility ?? 1) < MIN_SHOULDER_VISIBILITY || (right.visibility ?? 1) < MIN_SHOULDER_VISIBILITY) return null;
+
+  const scale = Math.hypot(left.x - right.x, left.y - right.y);
+  if (scale < MIN_SHOULDER_WIDTH) return null;
+
+  const nose = frame.face?.[FACE_NOSE_TIP] ?? frame.pose?.[POSE_NOSE] ?? null;
+  return {
+    center: { x: (left.x + right.x) / 2, y: (left.y + right.y) / 2 },
+    scale,
+    nose: nose && { x: nose.x, y: nose.y }
+  };
+}
+
+/**
+ * Indica si la secuencia tiene pose suficiente para comparar posiciones respecto del cuerpo
+ */
+export function hasBodyReference(frames: FrameData[]): boolean {
+  if (frames.length === 0) return false;
+  const covered = frames.filter(frame => bodyReference(frame) !== null).length;
+  return covered / frames.length >= MIN_BODY_COVERAGE;
+}
+
+/**
+ * Referencia de cada frame; los frames sin pose reutilizan la más cercana anterior
+ * (o la primera disponible, al comienzo de la secuencia)
+ */
+function bodyReferences(frames: SlottedFrame[]): BodyReference[] {
+  const references = frames.map(bodyReference);
+  const first = references.find(reference => reference !== null) ?? FRAME_REFERENCE;
+
+  let last = first;
+  return references.map(reference => {
+    last = reference ?? last;
+    return last;
+  });
+}
+
+/**
+ * Posición de la muñeca de cada ranura respecto de la referencia, en anchos de hombros
+ * (o en unidades de encuadre si la referencia es el centro del encuadre)
+ */
+function wristPositions(slots: SlottedHands, reference: BodyReference): Array<Point2 | null> {
+  return [slots.dominant, slots.nonDominant].map(hand => hand
+    ? {
+        x: (hand.landmarks[0].x - reference.center.x) / reference.scale,
+        y: (hand.landmarks[0].y - reference.center.y) / reference.scale
+      }
+    : null
+  );
+}
+
+/**
+ * Vector de la nariz a cada muñeca, en anchos de hombros
+ */
+function wristToNose(slots: SlottedHands, reference: BodyReference): Array<Point2 | null> {
+  const nose = reference.nose;
+  return [slots.dominant, slots.nonDominant].map(hand => hand && nose
+    ? {
+        x: (hand.landmarks[0].x - nose.x) / reference.scale,
+        y: (hand.landmarks[0].y - nose.y) / reference.scale
+      }
+    : null
+  );
+}
+
+const flatten = (points: Array<Point2 | null>) => points.flatMap(point => [(point ?? ZERO).x, (point ?? ZERO).y]);
+
+/**
+ * Trayectoria, velocidad y aceleración (unidades de posición por segundo) de cada muñeca.
+ * Si la mano falta en el frame actual o en el anterior, su derivada se toma como cero.
+ * Con bodyRelative, la trayectoria incluye además la posición respecto de la nariz.
+ */
+function extractMotionFeatures(
+  frames: SlottedFrame[],
+  bodyRelative: boolean
+): Array<{ trajectory: number[]; velocity: number[]; acceleration: number[] }> {
+  const references = bodyRelative ? bodyReferences(frames) : frames.map(() => FRAME_REFERENCE);
+  let previousPositions: Array<Point2 | null> = [null, null];
+  let previousVelocities: Array<Point2 | null> = [null, null];
+  let previousAccelerations: Array<Point2 | null> = [null, null];
+  let previousTimestamp: number | null = null;
+
+  return frames.map((frame, index) => {
+    const positions = wristPositions(frame.slots, references[index]);
+    const elapsed = previousTimestamp === null ? 0 : (frame.timestamp - previousTimestamp) / 1000;
+
+    const derivative = (current: Point2 | null, previous: Point2 | null): Point2 | null =>
+      current && previous && elapsed > 0
+        ? { x: (current.x - previous.x) / elapsed, y: (current.y - previous.y) / elapsed }
+        : null;
+
+    // Frames repetidos por la normalización conservan las derivadas anteriores
+    const repeated = previousTimestamp !== null && elapsed <= 0;
+    const velocities = repeated
+      ? previousVelocities
+      : positions.map((position, slot) => derivative(position, previousPositions[slot]));
+    const accelerations = repeated
+      ? previousAccelerations
+      : velocities.map((velocity, slot) => derivative(velocity, previousVelocities[slot]));
+
+    if (!repeated) {
+      previousPositions = positions;
+      previousVelocities = velocities;
+      previousAccelerations = accelerations;
+      previousTimestamp = frame.timestamp;
+    }
+
+    const trajectory = flatten(positions);
+    if (bodyRelative) trajectory.push(...flatten(wristToNose(frame.slots, references[index])));
+
+    return {
+      trajectory,
+      velocity: flatten(velocities),
+      acceleration: flatten(accelerations)
+    };
+  });
+}
+
+/**
+ * Matriz de frames × columnas guardada de forma compacta
+ */
+export interface FeatureMatrix {
+  columns: number;
+  values: Float32Array;
+}
+
+export const toFeatureMatrix = (rows: number[][]): FeatureMatrix => {
+  const columns = rows[0]?.length ?? 0;
+  const values = new Float32Array(rows.length * columns);
+  rows.forEach((row, index) => values.set(row, index * columns));
+  return { columns, values };
+};
+
+/**
+ * Características ponderadas de una secuencia: el frame i ocupa
+ * values[i * stride] a values[(i + 1) * stride - 1]
+ */
+export interface SequenceFeatures {
+  frames: number;
+  stride: number;
+  values: Float32Array;
+  confidence: ArrayLike<number>; // Peso de cada frame (0-1) para el DTW, según la etiqueta de mano
+}
+
+/**
+ * Grupos de características de cada frame, sin ponderar
+ */
+export interface FeatureGroups {
+  shape: number[][];
+  trajectory: number[][];
+  velocity: number[][];
+  acceleration: number[][];
+  confidence: number[];
+}
+
+/**
+ * Los mismos grupos en matrices compactas, tal como se guardan en la caché
+ */
+export interface PackedFeatureGroups {
+  shape: FeatureMatrix;
+  trajectory: FeatureMatrix;
+  velocity: FeatureMatrix;
+  acceleration: FeatureMatrix;
+  confidence: ArrayLike<number>;
+}
+
+export const packFeatureGroups = (groups: FeatureGroups): PackedFeatureGroups => ({
+  shape: toFeatureMatrix(groups.shape),
+  trajectory: toFeatureMatrix(groups.trajectory),
+  velocity: toFeatureMatrix(groups.velocity),
+  acceleration: toFeatureMatrix(groups.acceleration),
+  confidence: groups.confidence
+});
+
+/**
+ * Asigna ranuras estables a lo largo de toda la secuencia, la normaliza y extrae
+ * cada grupo de características y la confianza de cada frame
+ */
+export function extractFeatureGroups(frames: FrameData[], options: Omit<FeatureOptions, 'weights'> = {}): FeatureGroups {
+  const slotted = normalizeSequence(trackHandSlots(frames));
+  const motion = extractMotionFeatures(slotted, options.bodyRelative ?? false);
+
+  return {
+    shape: slotted.map(frame => extractSlotFeatures(frame.slots, options.worldLandmarks)),
+    trajectory: motion.map(frame => frame.trajectory),
+    velocity: motion.map(frame => frame.velocity),
+    acceleration: motion.map(frame => frame.acceleration),
+    confidence: slotted.map(frame => handednessWeight(frame.slots))
+  };
+}
+
+/**
+ * Une los grupos en un vector por frame aplicando los pesos; los grupos con peso 0 se omiten
+ */
+export function combineFeatureGroups(groups: PackedFeatureGroups, weights: FeatureWeights = DEFAULT_FEATURE_WEIGHTS): SequenceFeatures {
+  const parts = ([
+    [groups.shape, weights.shape],
+    [groups.trajectory, weights.trajectory],
+    [groups.velocity, weights.velocity],
+    [groups.acceleration, weights.acceleration]
+  ] as Array<[FeatureMatrix, number]>).filter(([, weight]) => weight > 0);
+
+  const frames = groups.confidence.length;
+  const stride = parts.reduce((total, [matrix]) => total + matrix.columns, 0);
+  const values = new Float32Array(frames * stride);
+
+  for (let frame = 0; frame < frames; frame++) {
+    let offset = frame * stride;
+    for (const [{ columns, values: source }, weight] of parts) {
+      const start = frame * columns;
+      for (let column = 0; column < columns; column++) {
+        values[offset + column] = source[start + column] * weight;
+      }
+      offset += columns;
+    }
+  }
+
+  return { frames, stride, values, confidence: groups.confidence };
+}
+
+/**
+ * Características ponderadas y confianza de cada frame de una secuencia
+ */
+export function extractSequence(frames: FrameData[], options: FeatureOptions = {}): SequenceFeatures {
+  return combineFeatureGroups(packFeatureGroups(extractFeatureGroups(frames, options)), options.weights);
+}
+
+/**
+ * Solo las características de cada frame, sin la confianza
+ */
+export function extractSequenceFeatures(frames: FrameData[], options: FeatureOptions = {}): number[][] {
+  const { frames: count, stride, values } = extractSequence(frames, options);
+  return Array.from({ length: count }, (_, frame) => Array.from(values.subarray(frame * stride, (frame + 1) * stride)));
+}
+
+/**
+ * Distancia euclidiana entre el frame i de una secuencia y el frame j de otra,
+ * leídos en su lugar sin copiarlos
+ */
+export function frameDistance(seq1: SequenceFeatures, i: number, seq2: SequenceFeatures, j: number): number {
+  if (seq1.stride !== seq2.stride) return Infinity;
+
+  const offset1 = i * seq1.stride;
+  const offset2 = j * seq2.stride;
+  let sum = 0;
+  for (let k = 0; k < seq1.stride; k++) {
+    const difference = seq1.values[offset1 + k] - seq2.values[offset2 + k];
+    sum += difference * difference;
+  }
+
+  return Math.sqrt(sum);
+}
+
+/**
+ * Similitud de coseno entre el frame i de una secuencia y el frame j de otra
+ */
+export function frameCosineSimilarity(seq1: SequenceFeatures, i: number, seq2: SequenceFeatures, j: number): number {
+  if (seq1.stride !== seq2.stride) return 0;
+
+  const offset1 = i * seq1.stride;
+  const offset2 = j * seq2.stride;
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let k = 0; k < seq1.stride; k++) {
+    const a = seq1.values[offset1 + k];
+    const b = seq2.values[offset2 + k];
+    dotProduct += a * b;
+    normA += a * a;
+    normB += b * b;
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Calcula la similitud de coseno entre dos vectores
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Calcula la distancia euclidiana entre dos vectores
+ */
+export function euclideanDistance(a: number[], b: number[]): number {
+  if (a.length !== b.length) return Infinity;
+
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += Math.pow(a[i] - b[i], 2);
+  }
+
+  return Math.sqrt(sum);
+}
+
+/**
+ * Implementación de Dynamic Time Warping (DTW). El camino se elige con la distancia sin
+ * pesos; si se indica la confianza de cada frame, los pares poco confiables de ese camino
+ * cuentan menos en su promedio. El resultado es el costo medio ponderado de cada paso,
+ * escalado como el DTW sin pesos.
+ */
+export function calculateDTW(seq1: SequenceFeatures, seq2: SequenceFeatures): number {
+  const m = seq1.frames;
+  const n = seq2.frames;
+
+  const weight = (i: number, j: number): number => Math.sqrt((seq1.confidence[i] ?? 1) * (seq2.confidence[j] ?? 1));
+
+  // Costo sin pesos (elige el camino), costo ponderado, peso acumulado y cantidad de pasos
+  // del mejor camino a cada celda. Elegir con el costo ponderado abarataría los frames poco confiables.
+  const cost: number[][] = Array(m).fill(null).map(() => Array(n).fill(Infinity));
+  const dtw: number[][] = Array(m).fill(null).map(() => Array(n).fill(Infinity));
+  const weights: number[][] = Array(m).fill(null).map(() => Array(n).fill(0));
+  const steps: number[][] = Array(m).fill(null).map(() => Array(n).fill(0));
+
+  const step = (i: number, j: number, previous: [number, number] | null) => {
+    const w = weight(i, j);
+    const distance = frameDistance(seq1, i, seq2, j);
+    const [pi, pj] = previous ?? [-1, -1];
+    cost[i][j] = distance + (previous ? cost[pi][pj] : 0);
+    dtw[i][j] = distance * w + (previous ? dtw[pi][pj] : 0);
+    weights[i][j] = w + (previous ? weights[pi][pj] : 0);
+    steps[i][j] = 1 + (previous ? steps[pi][pj] : 0);
+  };
+
+  // Inicializar primera celda
+  step(0, 0, null);
+
+  // Llenar primera fila y columna
+  for (let i = 1; i < m; i++) {
+    step(i, 0, [i - 1, 0]);
+  }
+
+  for (let j = 1; j < n; j++) {
+    step(0, j, [0, j - 1]);
+  }
+
+  // Llenar el resto de la matriz
+  for (let i = 1; i < m; i++) {
+    for (let j = 1; j < n; j++) {
+      const candidates: Array<[number, number]> = [
+        [i - 1, j],    // inserción
+        [i, j - 1],    // eliminación
+        [i - 1, j - 1] // coincidencia
+      ];
+      step(i, j, candidates.reduce((best, cell) => cost[cell[0]][cell[1]] < cost[best[0]][best[1]] ? cell : best));
+    }
+  }
+
+  // Promedio ponderado por paso, normalizado por la longitud de las secuencias como el DTW sin pesos
+  const totalWeight = weights[m - 1][n - 1];
+  if (totalWeight === 0) return Infinity;
+  return (dtw[m - 1][n - 1] / totalWeight) * steps[m - 1][n - 1] / (m + n);
+}
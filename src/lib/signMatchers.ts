@@ -0,0 +1,168 @@
+import { SequenceFeatures, calculateDTW, cosineSimilarity, frameCosineSimilarity } from './signFeatures';
+
+export interface MatchScore {
+  similarity: number; // 0-1
+  explanation?: string;
+}
+
+/**
+ * Algoritmo de comparación entre las características de una secuencia detectada y
+ * las de una toma de referencia (extraídas con las mismas opciones)
+ */
+export interface SignMatcher {
+  id: string;
+  name: string;
+  description: string;
+  compare(query: SequenceFeatures, reference: SequenceFeatures): MatchScore;
+}
+
+const formatPercent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Receta original: DTW (70%) combinado con el coseno promedio frame a frame (30%)
+ */
+export class DtwCosineMatcher implements SignMatcher {
+  readonly id = 'dtw-cosine';
+  readonly name = 'DTW + coseno';
+  readonly description = 'Alineación temporal DTW combinada con la similitud de coseno por frame';
+
+  private readonly maxDistance = 10; // Distancia máxima esperada para normalizar
+  private readonly dtwWeight = 0.7;
+  private readonly cosineWeight = 0.3;
+  private readonly smoothingPower = 1.2; // Penaliza similitudes mediocres
+
+  compare(query: SequenceFeatures, reference: SequenceFeatures): MatchScore {
+    // Validar que se extrajeron características
+    if (query.frames === 0 || reference.frames === 0) {
+      return { similarity: 0, explanation: 'Sin características' };
+    }
+
+    const dtwDistance = calculateDTW(query, reference);
+
+    // Validar que el DTW es un número válido
+    if (isNaN(dtwDistance) || !isFinite(dtwDistance)) {
+      return { similarity: 0, explanation: 'Distancia DTW inválida' };
+    }
+
+    // Convertir distancia DTW a similitud (0-1)
+    const dtwSimilarity = Math.max(0, 1 - (dtwDistance / this.maxDistance));
+
+    // Calcular similitud promedio frame por frame usando coseno, ponderada por la confianza
+    let cosineSimilaritySum = 0;
+    let weightSum = 0;
+    const minFrames = Math.min(query.frames, reference.frames);
+
+    for (let i = 0; i < minFrames; i++) {
+      const cosineResult = frameCosineSimilarity(query, i, reference, i);
+      const weight = Math.sqrt(query.confidence[i] * reference.confidence[i]);
+      weightSum += weight;
+      if (!isNaN(cosineResult) && isFinite(cosineResult)) {
+        cosineSimilaritySum += cosineResult * weight;
+      }
+    }
+
+    const avgCosineSimilarity = weightSum > 0 ? cosineSimilaritySum / weightSum : 0;
+
+    // Validar similitudes finales
+    const finalDtwSim = isNaN(dtwSimilarity) ? 0 : dtwSimilarity;
+    const finalCosineSim = isNaN(avgCosineSimilarity) ? 0 : avgCosineSimilarity;
+
+    const combined = (finalDtwSim * this.dtwWeight) + (finalCosineSim * this.cosineWeight);
+    const similarity = Math.max(0, Math.min(1, Math.pow(Math.max(0, combined), this.smoothingPower)));
+
+    return {
+      similarity,
+      explanation: `DTW ${formatPercent(finalDtwSim)} · coseno ${formatPercent(finalCosineSim)}`
+    };
+  }
+}
+
+/**
+ * Solo la distancia DTW convertida a similitud
+ */
+export class DtwMatcher implements SignMatcher {
+  readonly id = 'dtw';
+  readonly name = 'DTW';
+  readonly description = 'Distancia de alineación temporal (Dynamic Time Warping) sin otros términos';
+
+  private readonly maxDistance = 10;
+
+  compare(query: SequenceFeatures, reference: SequenceFeatures): MatchScore {
+    if (query.frames === 0 || reference.frames === 0) {
+      return { similarity: 0, explanation: 'Sin características' };
+    }
+
+    const distance = calculateDTW(query, reference);
+    if (!isFinite(distance)) {
+      return { similarity: 0, explanation: 'Distancia DTW inválida' };
+    }
+
+    return {
+      similarity: Math.max(0, Math.min(1, 1 - distance / this.maxDistance)),
+      explanation: `Distancia DTW ${distance.toFixed(3)}`
+    };
+  }
+}
+
+/**
+ * Resume cada secuencia en un vector fijo (promedio por tramos temporales) y compara
+ * los vectores por coseno. Pensado para usarse con la agregación 'knn' de tomas.
+ */
+export class EmbeddingMatcher implements SignMatcher {
+  readonly id = 'knn-embedding';
+  readonly name = 'k-NN sobre embeddings';
+  readonly description = 'Vector resumen por tramos de la seña comparado con las tomas más cercanas';
+
+  private readonly segments = 4;
+
+  private embed({ frames, stride, values }: SequenceFeatures): number[] {
+    if (frames === 0) return [];
+
+    const embedding: number[] = [];
+    const segmentLength = Math.ceil(frames / this.segments);
+
+    for (let s = 0; s < this.segments; s++) {
+      const start = Math.min(frames, s * segmentLength);
+      const end = Math.min(frames, (s + 1) * segmentLength);
+      for (let d = 0; d < stride; d++) {
+        let sum = 0;
+        for (let frame = start; frame < end; frame++) sum += values[frame * stride + d];
+        embedding.push(end > start ? sum / (end - start) : 0);
+      }
+    }
+
+    return embedding;
+  }
+
+  compare(query: SequenceFeatures, reference: SequenceFeatures): MatchScore {
+    const similarity = Math.max(0, cosineSimilarity(this.embed(query), this.embed(reference)));
+
+    return {
+      similarity,
+      explanation: `Coseno de embeddings ${formatPercent(similarity)}`
+    };
+  }
+}
+
+export const DEFAULT_MATCHER_ID = 'dtw-cosine';
+
+const matcherRegistry = new Map<string, SignMatcher>();
+
+/**
+ * Registra un algoritmo para que pueda seleccionarse desde los ajustes
+ */
+export function registerMatcher(matcher: SignMatcher): void {
+  matcherRegistry.set(matcher.id, matcher);
+}
+
+export function getMatcher(id: string): SignMatcher {
+  return matcherRegistry.get(id) ?? matcherRegistry.get(DEFAULT_MATCHER_ID)!;
+}
+
+export function listMatchers(): SignMatcher[] {
+  return Array.from(matcherRegistry.values());
+}
+
+registerMatcher(new DtwCosineMatcher());
+registerMatcher(new DtwMatcher());
+registerMatcher(new EmbeddingMatcher());
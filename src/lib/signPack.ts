@@ -0,0 +1,337 @@
+import JSZip from 'jszip';
+import { SignBackup, SignMetadata, SignRecord, SignSample, SignSummary, signDatabase } from './indexeddb';
+import { LATEST_VERSION, MigrationContext, isSignRecord, migrateSignRecord, validateSignRecord } from './migrations';
+import { FrameData } from './mediapipe';
+import { DominantHand } from './handedness';
+
+export const SIGN_PACK_FORMAT = 'sign-pack';
+export const SIGN_PACK_FORMAT_VERSION = 1;
+
+interface SignPackSampleEntry {
+  id: string;
+  duration: number;
+  signer?: string;
+  dominantHand?: DominantHand;
+  videoStartTime?: number;
+  capturedAt: string;
+  videoType: string;
+  videoPath: string;
+  keyframesPath: string;
+}
+
+interface SignPackSignEntry extends Omit<SignMetadata, 'name'> {
+  id: string;
+  name: string;
+  createdAt: string;
+  thresholdOverride?: number; // El umbral calibrado depende de la biblioteca y no se exporta
+  samples: SignPackSampleEntry[];
+}
+
+export interface SignPackManifest {
+  format: typeof SIGN_PACK_FORMAT;
+  formatVersion: number;
+  schemaVersion: number;
+  exportedAt: string;
+  signs: SignPackSignEntry[];
+}
+
+export interface SignPack {
+  manifest: SignPackManifest;
+  signs: SignRecord[];
+  videos: Map<string, Blob>; // Por id de toma
+}
+
+export type DuplicateReason = 'id' | 'name';
+
+export interface SignPackDuplicate {
+  incoming: SignRecord;
+  existing: SignSummary;
+  reason: DuplicateReason;
+}
+
+/**
+ * 'merge': agrega las tomas nuevas a la seña existente
+ * 'replace': sustituye la seña existente por la importada
+ * 'skip': conserva la seña existente sin cambios
+ */
+export type DuplicateStrategy = 'merge' | 'replace' | 'skip';
+
+export interface SignPackImportResult {
+  added: number;
+  merged: number;
+  replaced: number;
+  skipped: number;
+}
+
+export class SignPackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SignPackError';
+  }
+}
+
+/**
+ * Normaliza un nombre para comparar duplicados (mayúsculas, acentos y espacios)
+ */
+const normalizeName = (name: string): string =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+const METADATA_FIELDS = ['aliases', 'description', 'category', 'tags', 'region', 'notes'] as const;
+
+/**
+ * Datos descriptivos opcionales presentes en una seña o en una entrada del manifiesto
+ */
+const pickMetadata = (source: Omit<SignMetadata, 'name'>): Omit<SignMetadata, 'name'> =>
+  Object.fromEntries(METADATA_FIELDS.filter(field => source[field] !== undefined).map(field => [field, source[field]]));
+
+const videoExtension = (type: string): string => type.includes('mp4') ? 'mp4' : 'webm';
+
+/**
+ * Genera un archivo zip con el manifiesto, los keyframes y los videos de las señas.
+ * Los videos se leen de la biblioteca salvo que se indique otra fuente.
+ */
+export async function exportSignPack(
+  signs: SignRecord[],
+  loadVideo: (sampleId: string) => Promise<Blob | null> = sampleId => signDatabase.getSampleVideo(sampleId)
+): Promise<Blob> {
+  const zip = new JSZip();
+  const entries: SignPackSignEntry[] = [];
+
+  for (const sign of signs) {
+    const samples: SignPackSampleEntry[] = [];
+
+    for (const sample of sign.samples) {
+      const videoBlob = await loadVideo(sample.id);
+      if (!videoBlob) {
+        throw new SignPackError(`No se encontró el video de una toma de "${sign.name}"`);
+      }
+
+      const basePath = `signs/${sign.id}/${sample.id}`;
+      const videoType = videoBlob.type || 'video/webm';
+      const videoPath = `${basePath}.${videoExtension(videoType)}`;
+      const keyframesPath = `${basePath}.keyframes.json`;
+
+      zip.file(videoPath, videoBlob);
+      zip.file(keyframesPath, JSON.stringify(sample.keyframes));
+
+      samples.push({
+        id: sample.id,
+        duration: sample.duration,
+        signer: sample.signer,
+        dominantHand: sample.dominantHand,
+        videoStartTime: sample.videoStartTime,
+        capturedAt: sample.capturedAt.toISOString(),
+        videoType,
+        videoPath,
+        keyframesPath
+      });
+    }
+
+    entries.push({
+      id: sign.id,
+      name: sign.name,
+      createdAt: sign.createdAt.toISOString(),
+      thresholdOverride: sign.threshold?.override,
+      ...pickMetadata(sign),
+      samples
+    });
+  }
+
+  const manifest: SignPackManifest = {
+    format: SIGN_PACK_FORMAT,
+    formatVersion: SIGN_PACK_FORMAT_VERSION,
+    schemaVersion: LATEST_VERSION,
+    exportedAt: new Date().toISOString(),
+    signs: entries
+  };
+
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+}
+
+/**
+ * Convierte un respaldo previo a una migración en un paquete importable.
+ * Los registros se llevan en memoria a la versión actual; los que no pasan la
+ * validación quedan fuera y se informan en skipped.
+ */
+export async function exportBackupPack(backup: SignBackup): Promise<{ pack: Blob; exported: number; skipped: number }> {
+  // Videos que ya estaban en su almacén (v6+); los de versiones anteriores salen de la migración
+  const videos = new Map((backup.videos ?? []).map(video => [video.id, video.blob]));
+  const context: MigrationContext = { putVideo: video => videos.set(video.id, video.blob) };
+  const signs: SignRecord[] = [];
+  let skipped = 0;
+
+  for (const record of backup.records) {
+    try {
+      const migrated = migrateSignRecord(record, backup.fromVersion, LATEST_VERSION, context);
+      if (!isSignRecord(migrated)) {
+        skipped++;
+        continue;
+      }
+      signs.push(migrated);
+    } catch {
+      skipped++;
+    }
+  }
+
+  const pack = await exportSignPack(signs, async sampleId => videos.get(sampleId) ?? null);
+  return { pack, exported: signs.length, skipped };
+}
+
+/**
+ * Lee y valida un archivo de paquete de señas
+ */
+export async function readSignPack(file: Blob): Promise<SignPack> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new SignPackError('El archivo no es un paquete de señas válido (zip)');
+  }
+
+  const manifestFile = zip.file('manifest.json');
+  if (!manifestFile) throw new SignPackError('El paquete no contiene manifest.json');
+
+  let manifest: SignPackManifest;
+  try {
+    manifest = JSON.parse(await manifestFile.async('string'));
+  } catch {
+    throw new SignPackError('manifest.json no es un JSON válido');
+  }
+
+  if (manifest.format !== SIGN_PACK_FORMAT || !Array.isArray(manifest.signs)) {
+    throw new SignPackError('manifest.json no corresponde a un paquete de señas');
+  }
+  if (manifest.formatVersion > SIGN_PACK_FORMAT_VERSION) {
+    throw new SignPackError(`Formato de paquete v${manifest.formatVersion} no soportado por esta versión de la aplicación`);
+  }
+  if (!Number.isInteger(manifest.schemaVersion) || manifest.schemaVersion < 1) {
+    throw new SignPackError('El paquete no indica una versión de esquema válida');
+  }
+  if (manifest.schemaVersion > LATEST_VERSION) {
+    throw new SignPackError(
+      `El paquete fue creado con el esquema v${manifest.schemaVersion}; esta aplicación solo admite hasta v${LATEST_VERSION}`
+    );
+  }
+
+  const signs: SignRecord[] = [];
+  const videos = new Map<string, Blob>();
+  for (const entry of manifest.signs) {
+    const samples: SignSample[] = [];
+
+    for (const sampleEntry of entry.samples || []) {
+      const videoFile = zip.file(sampleEntry.videoPath);
+      const keyframesFile = zip.file(sampleEntry.keyframesPath);
+      if (!videoFile || !keyframesFile) {
+        throw new SignPackError(`Faltan archivos de la toma ${sampleEntry.id} de "${entry.name}"`);
+      }
+
+      const videoData = await videoFile.async('arraybuffer');
+      const keyframes: FrameData[] = JSON.parse(await keyframesFile.async('string'));
+
+      videos.set(sampleEntry.id, new Blob([videoData], { type: sampleEntry.videoType || 'video/webm' }));
+      samples.push({
+        id: sampleEntry.id,
+        keyframes,
+        duration: sampleEntry.duration,
+        signer: sampleEntry.signer,
+        dominantHand: sampleEntry.dominantHand,
+        ...(typeof sampleEntry.videoStartTime === 'number' && { videoStartTime: sampleEntry.videoStartTime }),
+        capturedAt: new Date(sampleEntry.capturedAt)
+      });
+    }
+
+    const record = migrateSignRecord({
+      id: entry.id,
+      name: entry.name,
+      createdAt: new Date(entry.createdAt),
+      ...(typeof entry.thresholdOverride === 'number' && { threshold: { override: entry.thresholdOverride } }),
+      ...pickMetadata(entry),
+      samples
+    }, manifest.schemaVersion);
+
+    if (!isSignRecord(record)) {
+      throw new SignPackError(`Seña "${entry.name}" inválida: ${validateSignRecord(record).join('; ')}`);
+    }
+    signs.push(record);
+  }
+
+  return { manifest, signs, videos };
+}
+
+/**
+ * Detecta señas del paquete que ya existen en la biblioteca (mismo id o mismo nombre)
+ */
+export function findDuplicates(pack: SignPack, existingSigns: SignSummary[]): SignPackDuplicate[] {
+  const duplicates: SignPackDuplicate[] = [];
+
+  for (const incoming of pack.signs) {
+    const byId = existingSigns.find(sign => sign.id === incoming.id);
+    if (byId) {
+      duplicates.push({ incoming, existing: byId, reason: 'id' });
+      continue;
+    }
+
+    const byName = existingSigns.find(sign => normalizeName(sign.name) === normalizeName(incoming.name));
+    if (byName) {
+      duplicates.push({ incoming, existing: byName, reason: 'name' });
+    }
+  }
+
+  return duplicates;
+}
+
+/**
+ * Importa el paquete en la biblioteca aplicando la estrategia elegida a los duplicados.
+ * existingSigns son los resúmenes con los que se detectaron los duplicados al abrir el paquete.
+ */
+export async function importSignPack(
+  pack: SignPack,
+  strategy: DuplicateStrategy,
+  existingSigns: SignSummary[]
+): Promise<SignPackImportResult> {
+  const result: SignPackImportResult = { added: 0, merged: 0, replaced: 0, skipped: 0 };
+  const duplicates = findDuplicates(pack, existingSigns);
+
+  for (const incoming of pack.signs) {
+    const duplicate = duplicates.find(d => d.incoming === incoming);
+
+    if (!duplicate) {
+      await signDatabase.putSign(incoming, pack.videos);
+      result.added++;
+      continue;
+    }
+
+    if (strategy === 'skip') {
+      result.skipped++;
+      continue;
+    }
+
+    // Releer la seña: otra entrada del paquete pudo haberla combinado o reemplazado ya
+    const existing = await signDatabase.getSign(duplicate.existing.id);
+
+    if (strategy === 'merge' && existing) {
+      const knownSampleIds = new Set(existing.samples.map(sample => sample.id));
+      await signDatabase.putSign({
+        ...existing,
+        samples: [
+          ...existing.samples,
+          ...incoming.samples.filter(sample => !knownSampleIds.has(sample.id))
+        ]
+      }, pack.videos);
+      result.merged++;
+    } else if (strategy === 'merge') {
+      await signDatabase.putSign(incoming, pack.videos);
+      result.added++;
+    } else {
+      if (existing && existing.id !== incoming.id) {
+        await signDatabase.deleteSign(existing.id);
+      }
+      await signDatabase.putSign(incoming, pack.videos);
+      result.replaced++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,110 @@
+import type { SignRecord } from './indexeddb';
+import { normalizeText } from './textToSign';
+
+export type SignSortField = 'createdAt' | 'name' | 'duration';
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Filtros y orden de la biblioteca; todos se resuelven con índices de IndexedDB
+ */
+export interface SignQuery {
+  text?: string; // Prefijos de palabras del nombre o de los alias, sin importar acentos
+  tag?: string;
+  category?: string;
+  minDuration?: number; // Segundos, sobre la duración media de las tomas
+  maxDuration?: number;
+  createdFrom?: Date;
+  createdTo?: Date;
+  sortBy: SignSortField;
+  direction: SortDirection;
+}
+
+export const DEFAULT_SIGN_QUERY: SignQuery = { sortBy: 'createdAt', direction: 'desc' };
+
+/**
+ * Campos derivados que se guardan en cada seña solo para indexarla
+ */
+export interface SignSearchFields {
+  searchName: string;
+  searchTerms: string[];
+  duration: number;
+}
+
+export interface SignIndexFilter {
+  index: string;
+  range: IDBKeyRange;
+}
+
+export const SORT_INDEXES: Record<SignSortField, string> = {
+  createdAt: 'createdAt',
+  name: 'searchName',
+  duration: 'duration'
+};
+
+/**
+ * Etiquetas sin espacios sobrantes, en minúsculas y sin repetir
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+}
+
+/**
+ * Calcula los campos indexados a partir del nombre, los alias y las tomas
+ */
+export function searchFields(sign: Pick<SignRecord, 'name' | 'aliases' | 'samples'>): SignSearchFields {
+  const phrases = [sign.name, ...(sign.aliases ?? [])].map(normalizeText).filter(Boolean);
+  const samples = sign.samples ?? [];
+
+  return {
+    searchName: normalizeText(sign.name),
+    // Frases completas y cada palabra suelta, para buscar por prefijo cualquiera de ellas
+    searchTerms: Array.from(new Set(phrases.flatMap(phrase => [phrase, ...phrase.split(' ')]))),
+    duration: samples.length > 0
+      ? samples.reduce((total, sample) => total + (sample.duration || 0), 0) / samples.length
+      : 0
+  };
+}
+
+/**
+ * Devuelve la seña con sus campos de búsqueda al día, lista para guardarse
+ */
+export function withSearchFields<T extends SignRecord>(sign: T): T & SignSearchFields {
+  return {
+    ...sign,
+    ...(sign.tags && { tags: normalizeTags(sign.tags) }),
+    ...searchFields(sign)
+  };
+}
+
+const boundedRange = (lower?: number | Date, upper?: number | Date): IDBKeyRange | null => {
+  if (lower !== undefined && upper !== undefined) {
+    // Límites invertidos en el formulario: se interpretan como el mismo intervalo
+    return lower <= upper ? IDBKeyRange.bound(lower, upper) : IDBKeyRange.bound(upper, lower);
+  }
+  if (lower !== undefined) return IDBKeyRange.lowerBound(lower);
+  if (upper !== undefined) return IDBKeyRange.upperBound(upper);
+  return null;
+};
+
+/**
+ * Traduce la consulta a rangos sobre los índices; cada rango aporta un conjunto de claves
+ */
+export function signQueryFilters(query: SignQuery): SignIndexFilter[] {
+  const filters: SignIndexFilter[] = [];
+
+  const words = normalizeText(query.text ?? '').split(' ').filter(Boolean);
+  words.forEach(word => {
+    filters.push({ index: 'searchTerms', range: IDBKeyRange.bound(word, word + '\uffff') });
+  });
+
+  if (query.tag) filters.push({ index: 'tags', range: IDBKeyRange.only(query.tag) });
+  if (query.category) filters.push({ index: 'category', range: IDBKeyRange.only(query.category) });
+
+  const durationRange = boundedRange(query.minDuration, query.maxDuration);
+  if (durationRange) filters.push({ index: 'duration', range: durationRange });
+
+  const dateRange = boundedRange(query.createdFrom, query.createdTo);
+  if (dateRange) filters.push({ index: 'createdAt', range: dateRange });
+
+  return filters;
+}
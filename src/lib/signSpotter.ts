@@ -0,0 +1,173 @@
+import { FrameData } from './mediapipe';
+
+export type SegmentEndReason = 'hands-left' | 'pause' | 'max-duration';
+
+export interface SignSegment {
+  frames: FrameData[];
+  startTime: number;
+  endTime: number;
+  reason: SegmentEndReason;
+}
+
+export interface SignSpotterOptions {
+  bufferMs: number; // Historial máximo conservado en el buffer deslizante
+  handsAbsentMs: number; // Tiempo sin manos que cierra un segmento
+  pauseMs: number; // Tiempo quieto (tras haber movimiento) que cierra un segmento
+  motionThreshold: number; // Desplazamiento medio por frame considerado "quieto"
+  minSegmentMs: number;
+  maxSegmentMs: number;
+  minFrames: number;
+}
+
+const DEFAULT_OPTIONS: SignSpotterOptions = {
+  bufferMs: 10000,
+  handsAbsentMs: 300,
+  pauseMs: 600,
+  motionThreshold: 0.004,
+  minSegmentMs: 400,
+  maxSegmentMs: 8000,
+  minFrames: 8
+};
+
+// Muñeca y puntas de dedos, suficientes para estimar el movimiento
+const MOTION_LANDMARKS = [0, 4, 8, 12, 16, 20];
+
+/**
+ * Segmenta automáticamente un flujo continuo de frames en señas candidatas,
+ * usando la entrada/salida de las manos y las pausas de movimiento.
+ */
+export class SignSpotter {
+  private readonly options: SignSpotterOptions;
+  private buffer: FrameData[] = [];
+  private segmentStart: number | null = null;
+  private lastHandsTime: number | null = null;
+  private stillSince: number | null = null;
+  private hasMoved = false;
+
+  constructor(
+    private readonly onSegment: (segment: SignSegment) => void,
+    options: Partial<SignSpotterOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Agrega un frame (con o sin manos) al buffer y evalúa los límites del segmento
+   */
+  pushFrame(frame: FrameData): void {
+    const previous = this.buffer[this.buffer.length - 1];
+    this.buffer.push(frame);
+    this.trimBuffer(frame.timestamp);
+
+    const hasHands = frame.hands.some(hand => hand.landmarks.length === 21);
+
+    if (hasHands) {
+      this.lastHandsTime = frame.timestamp;
+
+      if (this.segmentStart === null) {
+        this.startSegment(frame.timestamp);
+        return;
+      }
+
+      const motion = previous ? this.measureMotion(previous, frame) : 0;
+      if (motion > this.options.motionThreshold) {
+        this.hasMoved = true;
+        this.stillSince = null;
+      } else if (this.stillSince === null) {
+        this.stillSince = frame.timestamp;
+      }
+
+      if (frame.timestamp - this.segmentStart >= this.options.maxSegmentMs) {
+        this.closeSegment(frame.timestamp, 'max-duration');
+        this.startSegment(frame.timestamp);
+      } else if (this.hasMoved && this.stillSince !== null && frame.timestamp - this.stillSince >= this.options.pauseMs) {
+        this.closeSegment(this.stillSince, 'pause');
+        // La siguiente seña comienza cuando las manos vuelvan a moverse
+        this.startSegment(frame.timestamp);
+      }
+      return;
+    }
+
+    if (
+      this.segmentStart !== null &&
+      this.lastHandsTime !== null &&
+      frame.timestamp - this.lastHandsTime >= this.options.handsAbsentMs
+    ) {
+      this.closeSegment(this.lastHandsTime, 'hands-left');
+      this.segmentStart = null;
+    }
+  }
+
+  /**
+   * Cierra el segmento en curso (por ejemplo al detener el modo continuo)
+   */
+  flush(): void {
+    if (this.segmentStart !== null && this.lastHandsTime !== null) {
+      this.closeSegment(this.lastHandsTime, 'hands-left');
+    }
+    this.reset();
+  }
+
+  reset(): void {
+    this.buffer = [];
+    this.segmentStart = null;
+    this.lastHandsTime = null;
+    this.stillSince = null;
+    this.hasMoved = false;
+  }
+
+  private startSegment(timestamp: number): void {
+    this.segmentStart = timestamp;
+    this.stillSince = null;
+    this.hasMoved = false;
+  }
+
+  private closeSegment(endTime: number, reason: SegmentEndReason): void {
+    const startTime = this.segmentStart!;
+    const frames = this.buffer.filter(frame =>
+      frame.timestamp >= startTime &&
+      frame.timestamp <= endTime &&
+      frame.hands.length > 0 &&
+      frame.hands[0].landmarks.length === 21
+    );
+
+    const isLongEnough = endTime - startTime >= this.options.minSegmentMs && frames.length >= this.options.minFrames;
+    // Un segmento que solo contiene manos quietas no es una seña
+    if (isLongEnough && this.hasMoved) {
+      this.onSegment({ frames, startTime, endTime, reason });
+    }
+  }
+
+  private trimBuffer(now: number): void {
+    const oldest = now - this.options.bufferMs;
+    let firstKept = 0;
+    while (firstKept < this.buffer.length && this.buffer[firstKept].timestamp < oldest) {
+      firstKept++;
+    }
+    if (firstKept > 0) {
+      this.buffer = this.buffer.slice(firstKept);
+    }
+  }
+
+  /**
+   * Desplazamiento medio de la muñeca y las puntas de los dedos entre dos frames
+   */
+  private measureMotion(previous: FrameData, current: FrameData): number {
+    let total = 0;
+    let count = 0;
+
+    current.hands.forEach((hand, handIndex) => {
+      const previousHand = previous.hands[handIndex];
+      if (!previousHand || previousHand.landmarks.length !== 21 || hand.landmarks.length !== 21) return;
+
+      for (const index of MOTION_LANDMARKS) {
+        const a = previousHand.landmarks[index];
+        const b = hand.landmarks[index];
+        total += Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2));
+        count++;
+      }
+    });
+
+    return count > 0 ? total / count : 0;
+  }
+}
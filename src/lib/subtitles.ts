@@ -0,0 +1,58 @@
+/**
+ * Subtítulo con los tiempos de una seña reconocida dentro de un video
+ */
+export interface SubtitleCue {
+  id: string;
+  startTime: number; // ms desde el inicio del video
+  endTime: number;
+  text: string;
+}
+
+const MIN_CUE_MS = 500; // Duración mínima para que el subtítulo alcance a leerse
+
+/**
+ * Texto del subtítulo en una sola línea: un salto de línea en blanco o "-->" cortarían el bloque
+ */
+const cueText = (text: string): string => text.replace(/\s+/g, ' ').replace(/-->/g, '->').trim();
+
+const escapeWebVTT = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Formatea ms como hh:mm:ss.mmm (WebVTT) o hh:mm:ss,mmm (SRT)
+ */
+function formatTimestamp(ms: number, separator: '.' | ','): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+/**
+ * Ordena los subtítulos, deja cada texto en una línea, descarta los vacíos y asegura
+ * una duración legible
+ */
+export function normalizeCues(cues: SubtitleCue[]): SubtitleCue[] {
+  return cues
+    .map(cue => ({ ...cue, text: cueText(cue.text), endTime: Math.max(cue.endTime, cue.startTime + MIN_CUE_MS) }))
+    .filter(cue => cue.text)
+    .sort((a, b) => a.startTime - b.startTime);
+}
+
+export function cuesToWebVTT(cues: SubtitleCue[]): string {
+  const blocks = normalizeCues(cues).map(cue =>
+    `${formatTimestamp(cue.startTime, '.')} --> ${formatTimestamp(cue.endTime, '.')}\n${escapeWebVTT(cue.text)}`
+  );
+  return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+}
+
+export function cuesToSRT(cues: SubtitleCue[]): string {
+  return normalizeCues(cues)
+    .map((cue, index) =>
+      `${index + 1}\n${formatTimestamp(cue.startTime, ',')} --> ${formatTimestamp(cue.endTime, ',')}\n${cue.text}`
+    )
+    .join('\n\n') + '\n';
+}
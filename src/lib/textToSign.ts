@@ -0,0 +1,78 @@
+import type { SignSummary } from './indexeddb';
+
+/**
+ * Fragmento de la frase escrita: una o varias palabras y la seña que les corresponde
+ */
+export interface PhraseToken {
+  id: string;
+  text: string; // Tal como se escribió, sin la puntuación de los bordes
+  sign: SignSummary | null; // Null si no hay ninguna seña para esas palabras
+}
+
+const MAX_PHRASE_WORDS = 4; // Nombres de seña de varias palabras ("buenos días")
+
+/**
+ * Minúsculas, sin acentos ni signos de puntuación, para comparar palabras
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Índice de nombres y alias normalizados; ante repetidos gana la primera seña con tomas
+ */
+function buildSignIndex(signs: SignSummary[]): Map<string, SignSummary> {
+  const index = new Map<string, SignSummary>();
+  signs
+    .filter(sign => sign.samples.length > 0)
+    .forEach(sign => {
+      [sign.name, ...(sign.aliases ?? [])].forEach(term => {
+        const key = normalizeText(term);
+        if (key && !index.has(key)) index.set(key, sign);
+      });
+    });
+  return index;
+}
+
+/**
+ * Divide la frase en palabras y asigna señas de izquierda a derecha, prefiriendo
+ * la coincidencia más larga para nombres de varias palabras
+ */
+export function matchPhrase(phrase: string, signs: SignSummary[]): PhraseToken[] {
+  const index = buildSignIndex(signs);
+  // Los signos de puntuación alrededor de cada palabra no se muestran
+  const words = phrase
+    .split(/\s+/)
+    .map(word => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''))
+    .filter(Boolean);
+  const tokens: PhraseToken[] = [];
+
+  let position = 0;
+  while (position < words.length) {
+    let matched = false;
+
+    for (let length = Math.min(MAX_PHRASE_WORDS, words.length - position); length > 0; length--) {
+      const candidate = words.slice(position, position + length);
+      const sign = index.get(normalizeText(candidate.join(' ')));
+      if (sign) {
+        tokens.push({ id: crypto.randomUUID(), text: candidate.join(' '), sign });
+        position += length;
+        matched = true;
+        break;
+      }
+    }
+
+    if (!matched) {
+      tokens.push({ id: crypto.randomUUID(), text: words[position], sign: null });
+      position++;
+    }
+  }
+
+  return tokens;
+}
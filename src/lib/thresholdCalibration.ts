@@ -0,0 +1,108 @@
+import { ComparisonOptions, SignCandidate, hasKeyframes, signComparisonService } from './signComparison';
+
+const MIN_THRESHOLD = 0.5;
+const MAX_THRESHOLD = 0.99;
+const SEPARATION_MARGIN = 0.02; // Margen bajo la toma propia más lejana cuando no hay impostoras
+
+export interface CalibrationResult {
+  signId: string;
+  threshold: number | null; // null si la seña tiene una sola toma
+  genuineScores: number[]; // Cada toma propia contra el resto de sus tomas
+  impostorScores: number[]; // Tomas de otras señas contra esta seña
+}
+
+/**
+ * Elige el corte que minimiza rechazos de tomas propias más aceptaciones de impostoras.
+ * Los cortes candidatos son los puntos medios entre puntajes consecutivos; ante empate
+ * se prefiere el más estricto.
+ */
+export function chooseThreshold(genuineScores: number[], impostorScores: number[]): number | null {
+  if (genuineScores.length === 0) return null;
+
+  const scores = Array.from(new Set([...genuineScores, ...impostorScores])).sort((a, b) => a - b);
+  const cuts = [scores[0] - SEPARATION_MARGIN];
+  for (let i = 1; i < scores.length; i++) {
+    cuts.push((scores[i - 1] + scores[i]) / 2);
+  }
+  cuts.push(scores[scores.length - 1] + SEPARATION_MARGIN);
+
+  let bestCut = cuts[0];
+  let bestErrors = Infinity;
+
+  for (const cut of cuts) {
+    const falseRejects = genuineScores.filter(score => score < cut).length;
+    const falseAccepts = impostorScores.filter(score => score >= cut).length;
+    const errors = falseRejects + falseAccepts;
+
+    if (errors <= bestErrors) {
+      bestErrors = errors;
+      bestCut = cut;
+    }
+  }
+
+  return Math.max(MIN_THRESHOLD, Math.min(MAX_THRESHOLD, bestCut));
+}
+
+/**
+ * Calcula el umbral de una seña comparando sus tomas entre sí y contra las del resto de la biblioteca
+ */
+export async function calibrateSign(
+  sign: SignCandidate,
+  library: SignCandidate[],
+  options: ComparisonOptions = {}
+): Promise<CalibrationResult> {
+  const samples = sign.samples.filter(hasKeyframes);
+  const genuineScores: number[] = [];
+  const impostorScores: number[] = [];
+
+  if (samples.length > 1) {
+    for (const sample of samples) {
+      const rest = { ...sign, samples: samples.filter(other => other.id !== sample.id) };
+      const [result] = await signComparisonService.compareWithDatabase(
+        sample.keyframes,
+        [rest],
+        { ...options, dominantHand: sample.dominantHand }
+      );
+      if (result) genuineScores.push(result.similarity);
+    }
+
+    const impostors = library
+      .filter(other => other.id !== sign.id)
+      .flatMap(other => other.samples.filter(hasKeyframes));
+
+    for (const impostor of impostors) {
+      const [result] = await signComparisonService.compareWithDatabase(
+        impostor.keyframes,
+        [{ ...sign, samples }],
+        { ...options, dominantHand: impostor.dominantHand }
+      );
+      if (result) impostorScores.push(result.similarity);
+    }
+  }
+
+  return {
+    signId: sign.id,
+    threshold: chooseThreshold(genuineScores, impostorScores),
+    genuineScores,
+    impostorScores
+  };
+}
+
+/**
+ * Calibra todas las señas de la biblioteca, cediendo el hilo entre señas
+ */
+export async function calibrateLibrary(
+  library: SignCandidate[],
+  options: ComparisonOptions = {},
+  onProgress?: (done: number, total: number) => void
+): Promise<CalibrationResult[]> {
+  const results: CalibrationResult[] = [];
+
+  for (const sign of library) {
+    results.push(await calibrateSign(sign, library, options));
+    onProgress?.(results.length, library.length);
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  return results;
+}
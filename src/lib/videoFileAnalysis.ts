@@ -0,0 +1,144 @@
+import { FrameData, HandDetector, HandDetectorOptions } from './mediapipe';
+import { SignSegment, SignSpotter } from './signSpotter';
+import { ComparisonOptions, ComparisonResult, SignCandidate, signComparisonService } from './signComparison';
+
+export const VIDEO_FILE_FRAME_RATE = 30; // Cuadros analizados por segundo de video
+export const ACCEPTED_VIDEO_TYPES = 'video/mp4,video/webm';
+
+export interface VideoAnalysisProgress {
+  done: number;
+  total: number;
+}
+
+export interface VideoKeyframes {
+  frames: FrameData[]; // Timestamps en ms desde el inicio del video
+  duration: number; // Segundos
+}
+
+/**
+ * Seña encontrada en un archivo, con sus tiempos dentro del video
+ */
+export interface VideoRecognition {
+  id: string;
+  startTime: number; // ms desde el inicio del video
+  endTime: number;
+  match: ComparisonResult | null; // Null si ninguna seña alcanzó su umbral
+  results: ComparisonResult[]; // Candidatos ordenados por similitud
+}
+
+const abortError = () => new DOMException('Análisis cancelado', 'AbortError');
+
+const waitForEvent = (video: HTMLVideoElement, event: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onEvent = () => {
+      video.removeEventListener('error', onError);
+      resolve();
+    };
+    const onError = () => {
+      video.removeEventListener(event, onEvent);
+      reject(new Error('No se pudo leer el archivo de video'));
+    };
+    video.addEventListener(event, onEvent, { once: true });
+    video.addEventListener('error', onError, { once: true });
+  });
+
+async function seek(video: HTMLVideoElement, time: number): Promise<void> {
+  const seeked = waitForEvent(video, 'seeked');
+  video.currentTime = time;
+  await seeked;
+}
+
+/**
+ * Carga un archivo en un elemento de video fuera de pantalla. Los webm de MediaRecorder
+ * no declaran su duración, así que se busca el final para que el navegador la calcule.
+ */
+async function loadVideo(file: Blob): Promise<HTMLVideoElement> {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  const loaded = waitForEvent(video, 'loadeddata');
+  video.src = URL.createObjectURL(file);
+  await loaded;
+
+  if (!isFinite(video.duration)) {
+    await seek(video, Number.MAX_SAFE_INTEGER);
+    await seek(video, 0);
+  }
+
+  return video;
+}
+
+/**
+ * Ejecuta el detector sobre cada cuadro del archivo (modo VIDEO, tiempos del propio video)
+ * y devuelve los keyframes, incluidos los frames sin manos
+ */
+export async function extractVideoKeyframes(
+  file: Blob,
+  detectorOptions: Partial<HandDetectorOptions>,
+  onProgress?: (progress: VideoAnalysisProgress) => void,
+  signal?: AbortSignal
+): Promise<VideoKeyframes> {
+  const video = await loadVideo(file);
+  const detector = new HandDetector({ ...detectorOptions, runningMode: 'VIDEO' });
+
+  try {
+    const total = Math.max(1, Math.floor(video.duration * VIDEO_FILE_FRAME_RATE));
+    const frames: FrameData[] = [];
+
+    for (let index = 0; index < total; index++) {
+      if (signal?.aborted) throw abortError();
+
+      const time = index / VIDEO_FILE_FRAME_RATE;
+      await seek(video, time);
+
+      const timestamp = time * 1000;
+      const detection = await detector.detectFrame(video, timestamp, signal);
+      frames.push(HandDetector.extractFrameData(detection, timestamp));
+      onProgress?.({ done: index + 1, total });
+    }
+
+    return { frames, duration: video.duration };
+  } finally {
+    detector.stop();
+    URL.revokeObjectURL(video.src);
+    video.removeAttribute('src');
+  }
+}
+
+/**
+ * Segmenta los keyframes de un video en señas candidatas y compara cada una con la biblioteca
+ */
+export async function recognizeVideoKeyframes(
+  frames: FrameData[],
+  candidates: SignCandidate[],
+  options: ComparisonOptions,
+  onProgress?: (progress: VideoAnalysisProgress) => void,
+  signal?: AbortSignal
+): Promise<VideoRecognition[]> {
+  const segments: SignSegment[] = [];
+  const spotter = new SignSpotter(segment => segments.push(segment));
+  frames.forEach(frame => spotter.pushFrame(frame));
+  spotter.flush();
+
+  const recognitions: VideoRecognition[] = [];
+  for (const segment of segments) {
+    if (signal?.aborted) throw abortError();
+
+    const results = await signComparisonService.compareWithDatabase(segment.frames, candidates, options);
+    recognitions.push({
+      id: crypto.randomUUID(),
+      startTime: segment.startTime,
+      endTime: segment.endTime,
+      match: results.length > 0 && results[0].isMatch ? results[0] : null,
+      results
+    });
+    onProgress?.({ done: recognitions.length, total: segments.length });
+
+    // Ceder el hilo para que la interfaz siga respondiendo
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  return recognitions;
+}
@@ -41,14 +41,13 @@ export class VoiceAlertService {
   }
 
   /**
-   * Reproduce una alerta de voz con el nombre de la seña reconocida
+   * Reproduce un mensaje con la mejor voz en español disponible
    */
-  async playSignRecognitionAlert(signName: string): Promise<void> {
+  private speak(message: string): Promise<void> {
     return new Promise((resolve, reject) => {
       // Cancelar cualquier síntesis en curso
       this.synth.cancel();
 
-      const message = `Seña reconocida: ${signName}`;
       const utterance = new SpeechSynthesisUtterance(message);
 
       // Configurar la voz
@@ -71,30 +70,25 @@ export class VoiceAlertService {
     });
   }
 
+  /**
+   * Reproduce una alerta de voz con el nombre de la seña reconocida
+   */
+  async playSignRecognitionAlert(signName: string): Promise<void> {
+    return this.speak(`Seña reconocida: ${signName}`);
+  }
+
   /**
    * Reproduce una alerta cuando no hay coincidencias
    */
   async playNoMatchAlert(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.synth.cancel();
-
-      const message = "No se encontraron coincidencias";
-      const utterance = new SpeechSynthesisUtterance(message);
-
-      const voice = this.getSpanishVoice();
-      if (voice) {
-        utterance.voice = voice;
-      }
-
-      utterance.rate = 0.9;
-      utterance.pitch = 1.0;
-      utterance.volume = 0.8;
-
-      utterance.onend = () => resolve();
-      utterance.onerror = (event) => reject(new Error(`Error de síntesis de voz: ${event.error}`));
+    return this.speak("No se encontraron coincidencias");
+  }
 
-      this.synth.speak(utterance);
-    });
+  /**
+   * Lee en voz alta una frase completa formada por señas reconocidas
+   */
+  async speakSentence(sentence: string): Promise<void> {
+    return this.speak(sentence);
   }
 
   /**
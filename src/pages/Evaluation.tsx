@@ -0,0 +1,27 @@
+import { Link } from 'react-router-dom';
+import { EvaluationPanel } from '@/components/EvaluationPanel';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+
+const Evaluation = () => {
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border/50 bg-card/50 backdrop-blur">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" asChild>
+            <Link to="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Volver
+            </Link>
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        <EvaluationPanel />
+      </main>
+    </div>
+  );
+};
+
+export default Evaluation;
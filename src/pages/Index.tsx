@@ -2,19 +2,73 @@ import React, { useState, useEffect } from 'react';
 import { SignRecorder } from '@/components/SignRecorder';
 import { SignDetector } from '@/components/SignDetector';
 import { SignLibrary } from '@/components/SignLibrary';
-import { signDatabase } from '@/lib/indexeddb';
+import { VideoFileAnalyzer } from '@/components/VideoFileAnalyzer';
+import { TextToSignPlayer } from '@/components/TextToSignPlayer';
+import { SettingsPanel } from '@/components/SettingsPanel';
+import { DetectorSettingsPanel } from '@/components/DetectorSettingsPanel';
+import { DatabaseBlockedError, signDatabase } from '@/lib/indexeddb';
+import { MigrationError } from '@/lib/migrations';
+import { exportBackupPack } from '@/lib/signPack';
+import { downloadBlob } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Hand, Video, Library, Search } from 'lucide-react';
+import { Hand, Video, Library, Search, Settings, FileVideo, Type } from 'lucide-react';
 
 const Index = () => {
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const { toast } = useToast();
 
   useEffect(() => {
+    // Descarga el respaldo previo a la migración como paquete importable
+    const downloadBackup = async (backupId: number) => {
+      try {
+        const backup = await signDatabase.getBackup(backupId);
+        if (!backup) throw new Error(`Backup ${backupId} not found`);
+
+        const { pack, exported, skipped } = await exportBackupPack(backup);
+        downloadBlob(pack, `respaldo-${backupId}-v${backup.fromVersion}.zip`);
+        toast({
+          title: "Respaldo descargado",
+          description: `${exported} seña${exported !== 1 ? 's' : ''} en el paquete${skipped > 0 ? `; ${skipped} no se pudieron convertir` : ''}`,
+        });
+      } catch (error) {
+        console.error('Error exporting backup:', error);
+        toast({
+          title: "Error",
+          description: "No se pudo descargar el respaldo",
+          variant: "destructive",
+        });
+      }
+    };
+
     // Initialize database
     signDatabase.initialize().catch((error) => {
       console.error('Failed to initialize database:', error);
+      if (error instanceof MigrationError) {
+        const { backupId } = error;
+        toast({
+          title: "Error al actualizar la biblioteca",
+          description: `${error.message}. Tus señas siguen guardadas${backupId ? ` (respaldo #${backupId})` : ''}.`,
+          variant: "destructive",
+          ...(backupId && {
+            action: (
+              <ToastAction altText="Descargar respaldo" onClick={() => downloadBackup(backupId)}>
+                Descargar respaldo
+              </ToastAction>
+            )
+          }),
+        });
+        return;
+      }
+      if (error instanceof DatabaseBlockedError) {
+        toast({
+          title: "Biblioteca abierta en otra pestaña",
+          description: `${error.message} y recarga esta página.`,
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Error de base de datos",
         description: "No se pudo inicializar el almacenamiento local",
@@ -51,7 +105,7 @@ const Index = () => {
       {/* Main content */}
       <main className="container mx-auto px-4 py-8">
         <Tabs defaultValue="record" className="space-y-8">
-          <TabsList className="grid w-full grid-cols-3 max-w-lg mx-auto">
+          <TabsList className="grid w-full grid-cols-6 max-w-4xl mx-auto">
             <TabsTrigger value="record" className="flex items-center gap-2">
               <Video className="w-4 h-4" />
               Grabar
@@ -60,10 +114,22 @@ const Index = () => {
               <Search className="w-4 h-4" />
               Detectar
             </TabsTrigger>
+            <TabsTrigger value="file" className="flex items-center gap-2">
+              <FileVideo className="w-4 h-4" />
+              Archivo
+            </TabsTrigger>
+            <TabsTrigger value="text" className="flex items-center gap-2">
+              <Type className="w-4 h-4" />
+              Texto
+            </TabsTrigger>
             <TabsTrigger value="library" className="flex items-center gap-2">
               <Library className="w-4 h-4" />
               Biblioteca
             </TabsTrigger>
+            <TabsTrigger value="settings" className="flex items-center gap-2">
+              <Settings className="w-4 h-4" />
+              Ajustes
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="record" className="space-y-6">
@@ -74,9 +140,22 @@ const Index = () => {
             <SignDetector />
           </TabsContent>
 
+          <TabsContent value="file" className="space-y-6">
+            <VideoFileAnalyzer onSignSaved={handleSignSaved} />
+          </TabsContent>
+
+          <TabsContent value="text" className="space-y-6">
+            <TextToSignPlayer refreshTrigger={refreshTrigger} />
+          </TabsContent>
+
           <TabsContent value="library" className="space-y-6">
             <SignLibrary refreshTrigger={refreshTrigger} />
           </TabsContent>
+
+          <TabsContent value="settings" className="space-y-6">
+            <SettingsPanel />
+            <DetectorSettingsPanel />
+          </TabsContent>
         </Tabs>
       </main>
 
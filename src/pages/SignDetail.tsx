@@ -0,0 +1,56 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { SignDetailPanel } from '@/components/SignDetailPanel';
+import { Button } from '@/components/ui/button';
+import { SignRecord, signDatabase } from '@/lib/indexeddb';
+import { ArrowLeft } from 'lucide-react';
+
+const SignDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const [sign, setSign] = useState<SignRecord | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadSign = async () => {
+      setIsLoading(true);
+      try {
+        await signDatabase.initialize();
+        setSign(id ? await signDatabase.getSign(id) : null);
+      } catch (error) {
+        console.error('Error cargando seña:', error);
+        setSign(null);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSign();
+  }, [id]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border/50 bg-card/50 backdrop-blur">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" asChild>
+            <Link to="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Volver
+            </Link>
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-6xl">
+        {isLoading ? (
+          <p className="text-center text-muted-foreground">Cargando seña...</p>
+        ) : sign ? (
+          <SignDetailPanel key={sign.id} sign={sign} onSignUpdated={setSign} />
+        ) : (
+          <p className="text-center text-muted-foreground">No se encontró la seña</p>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SignDetail;
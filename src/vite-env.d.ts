@@ -1 +1,4 @@
 /// <reference types="vite/client" />
+
+/** Ruta local (con versión fijada) del runtime WASM de MediaPipe, definida en vite.config.ts */
+declare const __MEDIAPIPE_WASM_PATH__: string;
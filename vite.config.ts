@@ -1,18 +1,96 @@
-import { defineConfig } from "vite";
+/// <reference types="vitest" />
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import { build } from "esbuild";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+const mediapipeDir = path.resolve(__dirname, "node_modules/@mediapipe/tasks-vision");
+const mediapipeVersion: string = JSON.parse(
+  fs.readFileSync(path.join(mediapipeDir, "package.json"), "utf-8"),
+).version;
+// Versioned path so a cached runtime never outlives the installed package
+const mediapipeWasmPath = `/mediapipe/tasks-vision@${mediapipeVersion}/wasm`;
+
+// Serves the MediaPipe WASM runtime from the installed package instead of a CDN
+function mediapipeWasm(): Plugin {
+  const wasmDir = path.join(mediapipeDir, "wasm");
+
+  return {
+    name: "mediapipe-wasm",
+    configureServer(server) {
+      server.middlewares.use(mediapipeWasmPath, (req, res, next) => {
+        const file = path.join(wasmDir, path.basename((req.url ?? "").split("?")[0]));
+        if (!fs.existsSync(file)) return next();
+
+        res.setHeader("Content-Type", file.endsWith(".wasm") ? "application/wasm" : "text/javascript");
+        fs.createReadStream(file).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const fileName of fs.readdirSync(wasmDir)) {
+        this.emitFile({
+          type: "asset",
+          fileName: `${mediapipeWasmPath.slice(1)}/${fileName}`,
+          source: fs.readFileSync(path.join(wasmDir, fileName)),
+        });
+      }
+    },
+  };
+}
+
+// The dev server serves classic workers unbundled, with their ES imports intact, which a
+// classic worker can't run. Bundle them as an IIFE instead, like the production build does.
+function classicWorkersDev(): Plugin {
+  return {
+    name: "classic-workers-dev",
+    apply: "serve",
+    configureServer(server) {
+      server.middlewares.use(async (req, res, next) => {
+        const url = new URL(req.url ?? "", "http://localhost");
+        if (!url.searchParams.has("worker_file") || url.searchParams.get("type") !== "classic") return next();
+
+        try {
+          const result = await build({
+            entryPoints: [path.join(server.config.root, url.pathname)],
+            bundle: true,
+            format: "iife",
+            sourcemap: "inline",
+            write: false,
+          });
+          res.setHeader("Content-Type", "text/javascript");
+          res.end(result.outputFiles[0].text);
+        } catch (error) {
+          next(error);
+        }
+      });
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  define: {
+    __MEDIAPIPE_WASM_PATH__: JSON.stringify(mediapipeWasmPath),
+  },
+  plugins: [react(), mediapipeWasm(), classicWorkersDev(), mode === "development" && componentTagger()].filter(Boolean),
+  // Classic (IIFE) workers, so MediaPipe can load its WASM script with importScripts
+  worker: {
+    format: "iife",
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  test: {
+    environment: "node",
+    // In-memory IndexedDB so schema migrations can run outside the browser
+    setupFiles: ["fake-indexeddb/auto"],
+  },
 }));